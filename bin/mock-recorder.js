@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * mock-recorder executable
+ * Runs the TypeScript CLI through tsx so no build step is needed
+ */
+
+require('tsx/cjs');
+require('../scripts/mock-recorder.ts');
@@ -1,6 +1,30 @@
 import { defineConfig } from 'cypress';
 import * as fs from 'fs';
+import * as http from 'http';
 import * as path from 'path';
+import {
+    clearMockDir,
+    listMockFiles,
+    mockFileExists,
+    readCassetteFile,
+    readMockFamily,
+    readMockFile,
+    writeCassetteFile,
+    writeMockFile
+} from './cypress/plugins/mockFiles';
+import { findSkippedSpecs, listUnusedMocks, markMocksUsed, writeUnusedMockReport } from './cypress/plugins/unusedMocks';
+import { saveRedactionTokens, scanMocksForPII } from './cypress/plugins/piiScan';
+import { scanMocksForSecrets } from './cypress/plugins/secretScan';
+import { verifyMocks } from './cypress/plugins/driftCheck';
+import { loadOpenApiDocument } from './cypress/plugins/openapi';
+import { MockServerOptions, startMockServer } from './cypress/plugins/mockServer';
+import {
+    RecordingProxyOptions,
+    resetNodeProxy,
+    startNodeProxy,
+    startRecordingProxy
+} from './cypress/plugins/recordingProxy';
+import { assertNetworkProfiles, defaultConfig, setNodeEnv } from './cypress/config/mock.config';
 
 export default defineConfig({
     e2e: {
@@ -14,69 +38,149 @@ export default defineConfig({
         screenshotOnRunFailure: true,
 
         setupNodeEvents(on, config) {
+            const mockDir: string = config.env.MOCK_DIR || 'cypress/mocks';
+
+            // Node code (proxy, mock server) reads the same env as the browser, not the defaults
+            setNodeEnv(config.env);
+
+            // Servers started by specs, closed by stopMockServers
+            const specServers: http.Server[] = [];
+
+            // A misspelled profile fails the run here, not inside every replayed intercept
+            assertNetworkProfiles({
+                ...defaultConfig,
+                networkProfile: config.env.NETWORK_PROFILE || defaultConfig.networkProfile,
+            });
+
             // Task for reading mock files
             on('task', {
-                readMock({ filePath }: { filePath: string }) {
-                    const fullPath = path.resolve(filePath);
-                    if (fs.existsSync(fullPath)) {
-                        const content = fs.readFileSync(fullPath, 'utf-8');
-                        return JSON.parse(content);
-                    }
-                    return null;
+                readMock({ filePath, blobDir }: { filePath: string; blobDir?: string }) {
+                    return readMockFile(filePath, blobDir);
                 },
 
                 // Task for writing mock files
-                writeMock({ filePath, data }: { filePath: string; data: object }) {
+                writeMock({ filePath, data, blobDir }: { filePath: string; data: object; blobDir?: string }) {
+                    return writeMockFile(filePath, data, blobDir);
+                },
+
+                // Tasks for reading and writing a spec's cassette (YAML or JSON by extension)
+                readCassette({ filePath }: { filePath: string }) {
+                    return readCassetteFile(filePath);
+                },
+
+                writeCassette({ filePath, data }: { filePath: string; data: object }) {
+                    return writeCassetteFile(filePath, data);
+                },
+
+                // Task for reading a HAR capture
+                readHar({ filePath }: { filePath: string }) {
                     const fullPath = path.resolve(filePath);
-                    const dir = path.dirname(fullPath);
+                    if (!fs.existsSync(fullPath)) {
+                        throw new Error(`HAR file not found: ${fullPath}`);
+                    }
 
-                    // Create directory if it doesn't exist
-                    if (!fs.existsSync(dir)) {
-                        fs.mkdirSync(dir, { recursive: true });
+                    const har = JSON.parse(fs.readFileSync(fullPath, 'utf-8'));
+                    if (!har?.log || !Array.isArray(har.log.entries)) {
+                        throw new Error(`Not a valid HAR file (missing log.entries): ${fullPath}`);
                     }
+                    return har;
+                },
 
+                // Task for writing a HAR export
+                writeHar({ filePath, data }: { filePath: string; data: object }) {
+                    const fullPath = path.resolve(filePath);
+                    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
                     fs.writeFileSync(fullPath, JSON.stringify(data, null, 2), 'utf-8');
                     return true;
                 },
 
                 // Task for listing mock files
                 listMocks({ dirPath }: { dirPath: string }) {
-                    const fullPath = path.resolve(dirPath);
-                    if (!fs.existsSync(fullPath)) {
-                        return [];
-                    }
+                    return listMockFiles(dirPath);
+                },
+
+                // Task for reading near-miss mocks of one endpoint
+                readMockFamily({ dirPaths, prefixes, blobDir }: { dirPaths: string[]; prefixes: string[]; blobDir?: string }) {
+                    return readMockFamily(dirPaths, prefixes, blobDir);
+                },
 
-                    const files: string[] = [];
-                    const walkDir = (dir: string) => {
-                        const items = fs.readdirSync(dir);
-                        for (const item of items) {
-                            const itemPath = path.join(dir, item);
-                            const stat = fs.statSync(itemPath);
-                            if (stat.isDirectory()) {
-                                walkDir(itemPath);
-                            } else if (item.endsWith('.json')) {
-                                files.push(path.relative(fullPath, itemPath));
-                            }
-                        }
+                // Task for tracking which mocks a spec served
+                markMocksUsed({ files }: { files: string[] }) {
+                    return markMocksUsed(files);
+                },
+
+                // Task for previewing the unused-mock report mid-run, and which specs
+                // would still have to run before pruning is allowed (nothing is written)
+                previewUnusedMocks({ dirPath, ranSpecs }: { dirPath: string; ranSpecs: string[] }) {
+                    return {
+                        unused: listUnusedMocks(dirPath).unused,
+                        skippedSpecs: findSkippedSpecs(config.specPattern, ranSpecs),
                     };
+                },
 
-                    walkDir(fullPath);
-                    return files;
+                // Task for flagging values that still look like PII
+                scanMocksForPII({ dirPath }: { dirPath: string }) {
+                    return scanMocksForPII(dirPath);
+                },
+
+                // Task for finding leaked credentials in mocks
+                scanMocksForSecrets({ dirPath }: { dirPath: string }) {
+                    return scanMocksForSecrets(dirPath);
+                },
+
+                // Task for diffing stored responses against the live API
+                verifyMocks({ dirPath, includeUnsafe }: { dirPath: string; includeUnsafe?: boolean }) {
+                    return verifyMocks(dirPath, { baseUrl: config.baseUrl ?? undefined, includeUnsafe });
+                },
+
+                // Task for reading the OpenAPI contract used by replay validation
+                readOpenApiSpec({ filePath }: { filePath: string }) {
+                    return loadOpenApiDocument(filePath);
+                },
+
+                // Task for storing reversible redaction tokens locally
+                saveRedactionTokens({ tokens }: { tokens: Record<string, unknown> }) {
+                    return saveRedactionTokens(tokens, config.env.REDACTION_TOKENS_FILE);
                 },
 
                 // Task for clearing mock files
                 clearMocks({ dirPath }: { dirPath: string }) {
-                    const fullPath = path.resolve(dirPath);
-                    if (fs.existsSync(fullPath)) {
-                        fs.rmSync(fullPath, { recursive: true, force: true });
-                    }
-                    fs.mkdirSync(fullPath, { recursive: true });
-                    return true;
+                    return clearMockDir(dirPath);
                 },
 
                 // Task for checking if mock exists
                 mockExists({ filePath }: { filePath: string }) {
-                    return fs.existsSync(path.resolve(filePath));
+                    return mockFileExists(filePath);
+                },
+
+                // Task for serving a mock store over HTTP from a spec (e.g. to a service the spec
+                // exercises directly); resolves with the port once it is listening
+                startMockServer(options: MockServerOptions) {
+                    return startMockServer(options).then((server) => {
+                        specServers.push(server);
+                        return options.port;
+                    });
+                },
+
+                // Task for recording through to an upstream API from a spec
+                startRecordingProxy(options: RecordingProxyOptions) {
+                    return startRecordingProxy(options).then((server) => {
+                        specServers.push(server);
+                        return options.port;
+                    });
+                },
+
+                // Task for closing every server a spec started
+                stopMockServers() {
+                    const closing = specServers.splice(0).map(server => new Promise(resolve => server.close(resolve)));
+                    return Promise.all(closing).then(() => null);
+                },
+
+                // Task for starting the server-side proxy over for each test, in its mock scope
+                // and with the test's env (so per-spec overrides reach the proxy too)
+                resetNodeProxy({ namespaces, env }: { namespaces: string[]; env?: Record<string, unknown> }) {
+                    setNodeEnv({ ...config.env, ...env });
+                    return resetNodeProxy(namespaces);
                 },
 
                 // Log to console (for debugging)
@@ -86,6 +190,48 @@ export default defineConfig({
                 }
             });
 
+            // Report mocks no spec replayed (replay runs only)
+            on('after:run', (results) => {
+                const mode = String(config.env.MODE || '').toLowerCase();
+                if (!['replay', 'mock', 'strict'].includes(mode)) {
+                    return;
+                }
+
+                // Mocks of specs that didn't run (or tests that stopped early) only look unused
+                let prune = String(process.env.PRUNE_UNUSED ?? config.env.PRUNE_UNUSED) === 'true';
+                if (prune) {
+                    const ranSpecs = 'runs' in results ? results.runs.map(run => run.spec.relative) : [];
+                    const skipped = findSkippedSpecs(config.specPattern, ranSpecs);
+                    const failed = 'runs' in results ? results.totalFailed : results.failures;
+                    if (skipped.length > 0 || failed > 0) {
+                        const reason = skipped.length > 0 ? `${skipped.length} spec(s) did not run` : `${failed} test(s) failed`;
+                        console.log(`[MOCK] ⚠️ Not pruning unused mocks: ${reason}; prune on a full, passing run`);
+                        prune = false;
+                    }
+                }
+
+                const report = writeUnusedMockReport(mockDir, config.env.UNUSED_MOCKS_REPORT, prune);
+                console.log(
+                    `[MOCK] ${report.unused.length} of ${report.totalMocks} mocks unused` +
+                    `${prune ? ' (pruned)' : ''} -> ${config.env.UNUSED_MOCKS_REPORT}`
+                );
+            });
+
+            // Server-side calls (e.g. a backend-for-frontend) reach the API through a local proxy:
+            // recorded in record mode, served from the mocks in replay
+            if (config.env.PROXY_TARGET) {
+                return startNodeProxy({
+                    mode: String(config.env.MODE || ''),
+                    target: config.env.PROXY_TARGET,
+                    port: Number(config.env.PROXY_PORT),
+                    dir: mockDir,
+                    autoFallback: String(process.env.AUTO_FALLBACK ?? config.env.AUTO_FALLBACK) !== 'false',
+                    tokensFile: config.env.REDACTION_TOKENS_FILE,
+                    storageFormat: config.env.MOCK_STORAGE,
+                    onServed: filePath => markMocksUsed([filePath]),
+                }).then(() => config);
+            }
+
             return config;
         },
     },
@@ -93,9 +239,27 @@ export default defineConfig({
     env: {
         MODE: 'replay', // Default mode: 'record' or 'replay'
         MOCK_DIR: 'cypress/mocks',
+        MOCK_STORAGE: 'files', // 'files' (one JSON per endpoint), 'blobs' (index entries + deduplicated gzip bodies) or 'cassette'
+        CASSETTE_FORMAT: 'yaml', // 'yaml' or 'json' cassettes (one per spec) when MOCK_STORAGE is 'cassette'
         AUTO_FALLBACK: true, // If mock missing, hit real API and record
         SANITIZE_AUTH: true, // Remove auth headers
         SANITIZE_COOKIES: true, // Remove cookies
         LOG_LEVEL: 'info', // 'debug', 'info', 'warn', 'error'
+        API_VERSION: '', // Stamped on new recordings; replay warns on mismatch
+        SIMULATE_LATENCY: false, // Delay replayed responses
+        LATENCY: 'recorded', // 'recorded', fixed ms ('500') or range ('200-800')
+        LATENCY_SEED: '', // Change to pick different (still reproducible) delays from LATENCY ranges
+        MATCH_TIERS: 'exact,volatile,subset', // Match tiers replay may fall back through (add 'fuzzy' to opt in)
+        STATEFUL_RESOURCES: '', // Comma-separated collection routes replayed with in-memory CRUD state
+        ROUTE_TEMPLATES: '', // Comma-separated route templates, e.g. '/posts/:id,/users/:uuid/orders'
+        MOCK_SCOPE: 'global', // 'global', 'spec' or 'test' namespaces for recordings
+        GRAPHQL_MODE: false, // Store GraphQL calls per operation + variables
+        SEQUENCE_POLICY: 'repeat-last', // 'repeat-last', 'loop', 'fail' once recorded responses run out
+        UNUSED_MOCKS_REPORT: 'cypress/reports/unused-mocks.json', // Written after replay runs
+        PRUNE_UNUSED: false, // Delete mocks no spec replayed (only safe on full runs)
+        REDACTION_TOKENS_FILE: 'cypress/reports/redaction-tokens.json', // Token -> original map (git-ignored)
+        PROXY_TARGET: '', // Upstream API for server-side traffic; point your BFF at http://localhost:PROXY_PORT
+        PROXY_PORT: 4011, // Recording proxy (record) / mock server (replay) port
+        OPENAPI_SPEC: '', // OpenAPI document to validate recorded/replayed responses against
     },
 });
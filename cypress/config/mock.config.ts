@@ -3,10 +3,94 @@
  * Central configuration for the Network Mock Recorder
  */
 
+/** Where recordings live: shared tree, per spec, or per test */
+export type MockScope = 'global' | 'spec' | 'test';
+
+/**
+ * How mocks are stored: one pretty-printed file per endpoint, index entries with
+ * content-addressed gzip bodies, or one cassette file per spec
+ */
+export type StorageFormat = 'files' | 'blobs' | 'cassette';
+
+/** Serialization of cassette files */
+export type CassetteFormat = 'yaml' | 'json';
+
+/** How a mock was matched: exact, ignoring volatile params, request is a superset, or best score */
+export type MatchTier = 'exact' | 'volatile' | 'subset' | 'fuzzy';
+
+/** Replay delay: the recorded response time, a fixed ms value, or a random [min, max] range */
+export type LatencyStrategy = 'recorded' | number | [number, number];
+
+/** Per-route timing override */
+export interface LatencyRule {
+    /** URL pattern (regex string) */
+    pattern: string;
+
+    /** Delay strategy for matching routes */
+    latency?: LatencyStrategy;
+
+    /** Named bandwidth profile from networkProfiles */
+    profile?: string;
+}
+
+/** A volatile value templated at record time and regenerated at replay */
+export interface DynamicField {
+    /** JSONPath-style selector into the response body, e.g. $.data[*].createdAt */
+    path?: string;
+
+    /** Response header to template instead of a body field */
+    header?: string;
+
+    /** Only apply to matching URLs (regex string) */
+    route?: string;
+
+    /** Generator used at replay: now(), now(epoch), uuid(), counter(name), param(name) */
+    generator: string;
+}
+
+/** What a redaction rule does with a selected value */
+export type RedactionAction = 'mask' | 'fake' | 'hash' | 'drop' | 'token';
+
+/** Structured PII rule applied to recorded response bodies */
+export interface RedactionRule {
+    /** JSONPath-style selector, e.g. $.users[*].email */
+    path?: string;
+
+    /** Field name matched at any depth, e.g. email */
+    field?: string;
+
+    /** Only apply to matching URLs (regex string) */
+    route?: string;
+
+    /** mask: keep last 4 chars, fake: consistent fake value, hash: one-way hash, drop: remove, token: reversible token */
+    action: RedactionAction;
+
+    /** Kind of fake value (inferred from the field name when omitted) */
+    fake?: 'email' | 'name' | 'phone' | 'string';
+}
+
+/** REST collection emulated in memory during replay */
+export interface StatefulResource {
+    /** Collection route, e.g. /api/posts or /users/:userId/orders (items live at <route>/:id) */
+    route: string;
+
+    /** Item identifier field (default 'id') */
+    idField?: string;
+
+    /** Where the item array sits in the collection response, e.g. $.data (default: the body itself) */
+    itemsPath?: string;
+}
+
 export interface MockConfig {
     /** Directory to store mock files */
     mockDir: string;
 
+    /** Storage backend (files and blobs are read transparently, cassettes replace both) */
+    storageFormat: StorageFormat;
+
+    /** File format of cassettes when storageFormat is 'cassette' */
+    cassetteFormat: CassetteFormat;
+
     /** URL patterns to record (regex strings) */
     includePatterns: string[];
 
@@ -16,6 +100,9 @@ export interface MockConfig {
     /** Headers to sanitize/remove */
     sanitizeHeaders: string[];
 
+    /** Per-field redaction rules for response bodies (first matching rule wins) */
+    redactionRules: RedactionRule[];
+
     /** Enable auto-fallback to real API when mock is missing */
     autoFallback: boolean;
 
@@ -25,12 +112,74 @@ export interface MockConfig {
     /** Enable response time simulation */
     simulateLatency: boolean;
 
-    /** Dynamic placeholder pattern */
-    dynamicPlaceholder: string;
+    /** How replay delays responses when simulateLatency is on */
+    latency: LatencyStrategy;
+
+    /** Network profile applied to every replayed response (name from networkProfiles) */
+    networkProfile?: string;
+
+    /** Seed for latency ranges, so a request gets the same delay on every run */
+    latencySeed: string;
+
+    /** Per-route latency and throttling rules (first match wins) */
+    latencyRules: LatencyRule[];
+
+    /** Fields templated at record time and filled by generators at replay */
+    dynamicFields: DynamicField[];
+
+    /** HTTP methods whose request body is part of the mock signature */
+    matchBodyMethods: string[];
+
+    /** Body fields ignored when hashing request bodies (dot paths or bare keys) */
+    ignoredBodyFields: string[];
+
+    /** Route templates (e.g. /posts/:id) recorded once and replayed for every matching path */
+    routeTemplates: string[];
+
+    /** Match tiers replay may use, tried strictest first */
+    matchTiers: MatchTier[];
+
+    /** Query params that never distinguish mocks (cache-busters, timestamps) */
+    volatileParams: string[];
+
+    /** Lowest score (0-1) a fuzzy match needs to be served */
+    minMatchScore: number;
+
+    /** Collections whose writes replay applies to an in-memory copy of the recording */
+    statefulResources: StatefulResource[];
+
+    /** Store and match GraphQL requests per operation */
+    graphqlMode: boolean;
+
+    /** URL patterns treated as GraphQL endpoints (regex strings) */
+    graphqlEndpoints: string[];
+
+    /** What replay serves once a recorded response sequence runs out */
+    sequenceExhausted: 'repeat-last' | 'loop' | 'fail';
+
+    /** Fail the test when replay meets a request without a mock (disables auto-fallback) */
+    strictReplay: boolean;
+
+    /** Default namespace scope for recordings (overridable per enableNetworkMocking call) */
+    mockScope: MockScope;
+
+    /** API version stamped on new recordings and expected on replay */
+    mockVersion?: string;
+
+    /** Body fields the mock diff ignores (bare keys or dot paths) */
+    volatileFields: string[];
+
+    /** Response headers the mock diff ignores */
+    volatileHeaders: string[];
+
+    /** OpenAPI document (JSON or YAML) that recorded and replayed responses are validated against */
+    openApiSpec?: string;
 }
 
 export const defaultConfig: MockConfig = {
     mockDir: 'cypress/mocks',
+    storageFormat: 'files',
+    cassetteFormat: 'yaml',
 
     // Record all API calls by default
     includePatterns: [
@@ -59,10 +208,67 @@ export const defaultConfig: MockConfig = {
         'x-xsrf-token',
     ],
 
+    // e.g. { field: 'email', action: 'fake' }, { path: '$.card.number', action: 'mask' }
+    redactionRules: [],
+
     autoFallback: true,
     logLevel: 'info',
     simulateLatency: false,
-    dynamicPlaceholder: '{{DYNAMIC}}',
+    latency: 'recorded',
+    latencySeed: '',
+    latencyRules: [],
+    dynamicFields: [],
+
+    // Distinguish recordings by request body for write methods
+    matchBodyMethods: ['POST', 'PUT', 'PATCH'],
+    ignoredBodyFields: [],
+
+    // One recording per route family instead of per ID
+    routeTemplates: [],
+
+    // Fall back to looser matches before giving up on a mock (fuzzy is opt-in)
+    matchTiers: ['exact', 'volatile', 'subset'],
+    volatileParams: ['_', '_t', 'ts', 'timestamp', 'cb', 'cacheBuster', 'nocache'],
+    minMatchScore: 0.5,
+
+    // Opt-in CRUD emulation; static replay by default
+    statefulResources: [],
+
+    // GraphQL operation-aware storage
+    graphqlMode: false,
+    graphqlEndpoints: ['/graphql/?$', '/graphql/?\\?'],
+
+    // Polled endpoints keep serving their final state
+    sequenceExhausted: 'repeat-last',
+
+    strictReplay: false,
+
+    mockScope: 'global',
+
+    // Noise the mock diff skips when comparing recording runs
+    volatileFields: [],
+    volatileHeaders: [
+        'date',
+        'age',
+        'etag',
+        'expires',
+        'last-modified',
+        'x-request-id',
+        'cf-ray',
+        'report-to',
+        'nel',
+        'server-timing',
+    ],
+};
+
+/**
+ * Bandwidth throttling profiles (roughly matching Chrome DevTools presets)
+ */
+export const networkProfiles: Record<string, { latencyMs: number; throttleKbps: number }> = {
+    'slow-3g': { latencyMs: 400, throttleKbps: 400 },
+    'fast-3g': { latencyMs: 150, throttleKbps: 1600 },
+    '4g': { latencyMs: 50, throttleKbps: 9000 },
+    'dsl': { latencyMs: 25, throttleKbps: 2000 },
 };
 
 /**
@@ -72,8 +278,8 @@ export const piiPatterns = [
     // Email addresses
     { pattern: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, replacement: '***EMAIL***' },
 
-    // Phone numbers (various formats)
-    { pattern: /(\+?\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/g, replacement: '***PHONE***' },
+    // Phone numbers (separators required so plain numeric IDs are left alone)
+    { pattern: /(\+\d{1,3}[-.\s])?\(?\d{3}\)?[-.\s]\d{3}[-.\s]\d{4}\b/g, replacement: '***PHONE***' },
 
     // Credit card numbers
     { pattern: /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g, replacement: '***CARD***' },
@@ -86,22 +292,143 @@ export const piiPatterns = [
 ];
 
 /**
- * Get configuration merged with Cypress env
+ * Query parameters that carry credentials
+ */
+export const sensitiveQueryParams = [
+    'token',
+    'access_token',
+    'api_key',
+    'apikey',
+    'auth',
+    'key',
+    'secret',
+    'password',
+    'pwd',
+];
+
+/** Cypress env resolved in setupNodeEvents, read by getConfig() outside the browser */
+let nodeEnv: Record<string, unknown> | null = null;
+
+/**
+ * Make getConfig() in Node code (recording proxy, mock server) follow the
+ * resolved Cypress env (config.env) instead of the defaults
+ */
+export function setNodeEnv(env: Record<string, unknown>): void {
+    nodeEnv = env;
+}
+
+/**
+ * Read env values from Cypress in the browser, or from setNodeEnv in Node
+ */
+function getEnvReader(): Cypress.Cypress['env'] | null {
+    const env = nodeEnv;
+    if (typeof Cypress !== 'undefined') {
+        return ((key: string) => Cypress.env(key)) as Cypress.Cypress['env'];
+    }
+    return env ? ((key: string) => env[key]) as Cypress.Cypress['env'] : null;
+}
+
+/**
+ * Get configuration merged with Cypress env (in Node code, the env passed to setNodeEnv)
  */
 export function getConfig(): MockConfig {
     const envConfig: Partial<MockConfig> = {};
+    const env = getEnvReader();
 
-    if (typeof Cypress !== 'undefined') {
-        if (Cypress.env('MOCK_DIR')) {
-            envConfig.mockDir = Cypress.env('MOCK_DIR');
+    if (env) {
+        if (env('MOCK_DIR')) {
+            envConfig.mockDir = env('MOCK_DIR');
+        }
+        if (env('MOCK_STORAGE')) {
+            envConfig.storageFormat = env('MOCK_STORAGE');
+        }
+        if (env('CASSETTE_FORMAT')) {
+            envConfig.cassetteFormat = env('CASSETTE_FORMAT');
         }
-        if (Cypress.env('AUTO_FALLBACK') !== undefined) {
-            envConfig.autoFallback = Cypress.env('AUTO_FALLBACK');
+        if (env('AUTO_FALLBACK') !== undefined) {
+            envConfig.autoFallback = env('AUTO_FALLBACK');
         }
-        if (Cypress.env('LOG_LEVEL')) {
-            envConfig.logLevel = Cypress.env('LOG_LEVEL');
+        if (env('LOG_LEVEL')) {
+            envConfig.logLevel = env('LOG_LEVEL');
+        }
+        if (env('SIMULATE_LATENCY') !== undefined) {
+            envConfig.simulateLatency = env('SIMULATE_LATENCY');
+        }
+        if (env('LATENCY') !== undefined) {
+            envConfig.latency = parseLatency(env('LATENCY'));
+        }
+        if (env('LATENCY_SEED') !== undefined) {
+            envConfig.latencySeed = String(env('LATENCY_SEED'));
+        }
+        if (env('NETWORK_PROFILE')) {
+            envConfig.networkProfile = env('NETWORK_PROFILE');
+        }
+        if (env('GRAPHQL_MODE') !== undefined) {
+            envConfig.graphqlMode = env('GRAPHQL_MODE');
+        }
+        if (env('SEQUENCE_POLICY')) {
+            envConfig.sequenceExhausted = env('SEQUENCE_POLICY');
+        }
+        if (env('STRICT_REPLAY') !== undefined) {
+            envConfig.strictReplay = env('STRICT_REPLAY');
+        }
+        if (String(env('MODE')).toLowerCase() === 'strict') {
+            envConfig.strictReplay = true;
+        }
+        if (env('MOCK_SCOPE')) {
+            envConfig.mockScope = env('MOCK_SCOPE');
+        }
+        if (env('API_VERSION')) {
+            envConfig.mockVersion = String(env('API_VERSION'));
+        }
+        if (env('IGNORED_BODY_FIELDS')) {
+            envConfig.ignoredBodyFields = String(env('IGNORED_BODY_FIELDS')).split(',');
+        }
+        if (env('ROUTE_TEMPLATES')) {
+            envConfig.routeTemplates = String(env('ROUTE_TEMPLATES')).split(',');
+        }
+        if (env('MATCH_TIERS')) {
+            envConfig.matchTiers = String(env('MATCH_TIERS')).split(',') as MatchTier[];
+        }
+        if (env('VOLATILE_PARAMS')) {
+            envConfig.volatileParams = String(env('VOLATILE_PARAMS')).split(',');
+        }
+        if (env('STATEFUL_RESOURCES')) {
+            envConfig.statefulResources = String(env('STATEFUL_RESOURCES'))
+                .split(',')
+                .map(route => ({ route }));
+        }
+        if (env('OPENAPI_SPEC')) {
+            envConfig.openApiSpec = env('OPENAPI_SPEC');
         }
     }
 
     return { ...defaultConfig, ...envConfig };
 }
+
+/**
+ * Throw a clear error for network profile names that don't exist
+ * (the global profile and every latency rule's)
+ */
+export function assertNetworkProfiles(config: Pick<MockConfig, 'networkProfile' | 'latencyRules'>): void {
+    const names = [config.networkProfile, ...config.latencyRules.map(rule => rule.profile)];
+    const unknown = names.find(name => name && !networkProfiles[name]);
+    if (unknown) {
+        throw new Error(`Unknown network profile "${unknown}" (available: ${Object.keys(networkProfiles).join(', ')})`);
+    }
+}
+
+/**
+ * Parse a latency env value: 'recorded', '500' or '200-800'
+ */
+function parseLatency(value: unknown): LatencyStrategy {
+    if (typeof value === 'number') {
+        return value;
+    }
+    const text = String(value);
+    const range = text.match(/^(\d+)\s*-\s*(\d+)$/);
+    if (range) {
+        return [Number(range[1]), Number(range[2])];
+    }
+    return /^\d+$/.test(text) ? Number(text) : 'recorded';
+}
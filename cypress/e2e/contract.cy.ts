@@ -0,0 +1,125 @@
+/**
+ * Contract Validation
+ * Checks responses against the schemas of their documented OpenAPI operations
+ */
+
+import {
+    assertNoContractViolations,
+    getContractViolations,
+    loadContract,
+    validateContract,
+} from '../support/contract';
+import { findOperation, getResponseSchema, OpenApiDocument, validateSchema } from '../support/openapi';
+
+/** Scratch copy of the document the contract is loaded from */
+const SPEC_PATH = 'cypress/reports/contract/users.json';
+
+const usersApi: OpenApiDocument = {
+    openapi: '3.0.3',
+    servers: [{ url: 'https://api.example.com/api' }],
+    paths: {
+        '/users/me': {
+            get: { operationId: 'getMe', responses: { 200: { $ref: '#/components/responses/UserResponse' } } },
+        },
+        '/users/{id}': {
+            get: {
+                operationId: 'getUser',
+                responses: {
+                    200: { $ref: '#/components/responses/UserResponse' },
+                    204: { description: 'No body' },
+                    '4XX': { description: 'Error', content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } },
+                },
+            },
+        },
+    },
+    components: {
+        responses: {
+            UserResponse: {
+                description: 'A user',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+            },
+        },
+        schemas: {
+            User: {
+                type: 'object',
+                required: ['id', 'name'],
+                additionalProperties: false,
+                properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    role: { type: 'string', enum: ['admin', 'member'] },
+                    nickname: { type: 'string', nullable: true },
+                    tags: { type: 'array', items: { type: 'string' } },
+                },
+            },
+            Error: { type: 'object', required: ['message'], properties: { message: { type: 'string' } } },
+        },
+    },
+};
+
+const USER_SCHEMA = { $ref: '#/components/schemas/User' };
+
+describe('Contract Validation', () => {
+    const originalSpec = Cypress.env('OPENAPI_SPEC');
+    const originalStrict = Cypress.env('STRICT_REPLAY');
+
+    afterEach(() => {
+        Cypress.env('OPENAPI_SPEC', originalSpec);
+        Cypress.env('STRICT_REPLAY', originalStrict);
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: 'cypress/reports/contract' });
+    });
+
+    it('should report each schema violation with its path', () => {
+        expect(validateSchema(usersApi, USER_SCHEMA, { id: 1, name: 'Ada', nickname: null, tags: ['a'] })).to.deep.eq([]);
+        expect(validateSchema(usersApi, USER_SCHEMA, { id: 1.5, role: 'owner', tags: [1], extra: true })).to.deep.eq([
+            '$.name: required property missing',
+            '$.id: expected integer, got number',
+            '$.role: "owner" is not one of ["admin","member"]',
+            '$.tags[0]: expected string, got integer',
+            '$.extra: unexpected property',
+        ]);
+        expect(validateSchema(usersApi, USER_SCHEMA, null)).to.deep.eq(['$: must not be null']);
+    });
+
+    it('should find operations by route, literal paths first', () => {
+        expect(findOperation(usersApi, 'GET', '/api/users/me')?.template).to.eq('/users/me');
+        expect(findOperation(usersApi, 'get', '/api/users/42')?.template).to.eq('/users/{id}');
+        expect(findOperation(usersApi, 'DELETE', '/api/users/42')).to.eq(null);
+        expect(findOperation(usersApi, 'GET', '/users/42')).to.eq(null);
+    });
+
+    it('should pick the documented response for a status', () => {
+        const operation = findOperation(usersApi, 'GET', '/api/users/42')!.operation;
+
+        expect(getResponseSchema(usersApi, operation, 200)).to.deep.eq(USER_SCHEMA);
+        expect(getResponseSchema(usersApi, operation, 204)).to.eq(null);
+        expect(getResponseSchema(usersApi, operation, 404)).to.deep.eq({ $ref: '#/components/schemas/Error' });
+        expect(getResponseSchema(usersApi, operation, 500)).to.eq(undefined);
+    });
+
+    it('should collect violations of the loaded contract and fail strict replay', () => {
+        Cypress.env('OPENAPI_SPEC', SPEC_PATH);
+        cy.writeFile(SPEC_PATH, usersApi);
+
+        loadContract().then((doc) => {
+            expect(doc?.openapi).to.eq('3.0.3');
+
+            expect(validateContract('GET', 'https://api.example.com/api/users/1', 200, { id: 1, name: 'Ada' })).to.deep.eq([]);
+            expect(validateContract('GET', 'https://api.example.com/api/orders', 200, {})).to.deep.eq([]);
+            expect(validateContract('GET', 'https://api.example.com/api/users/1', 500, {})).to.deep.eq(['status 500 is not documented']);
+            expect(validateContract('GET', 'https://api.example.com/api/users/2', 200, { id: '2' })).to.have.length(2);
+
+            const violations = getContractViolations();
+            expect(violations.map(v => `${v.template} ${v.status}`)).to.deep.eq(['/users/{id} 500', '/users/{id} 200']);
+
+            // Only strict replay turns violations into a failure
+            assertNoContractViolations();
+            Cypress.env('STRICT_REPLAY', true);
+            expect(() => assertNoContractViolations()).to.throw('2 response(s) do not match the OpenAPI spec');
+            expect(getContractViolations()).to.have.length(0);
+        });
+    });
+});
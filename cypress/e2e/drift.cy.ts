@@ -0,0 +1,173 @@
+/**
+ * Versioning and Drift
+ * Checks version stamping and the structural diff against the live API
+ * (data: URLs stand in for the live API, so no backend is needed)
+ */
+
+import type { DriftResult } from '../plugins/driftCheck';
+import { RecordedMock, resetSequences, saveMock } from '../support/mockStorage';
+
+/** Scratch mock store */
+const MOCK_DIR = 'cypress/reports/drift';
+
+/**
+ * URL whose "live" response is the given JSON body
+ */
+function liveUrl(body: unknown): string {
+    return `data:application/json,${encodeURIComponent(JSON.stringify(body))}`;
+}
+
+/**
+ * A GET recording whose live counterpart answers with liveBody
+ */
+function recording(response: unknown, liveBody: unknown): RecordedMock {
+    return {
+        method: 'GET',
+        url: liveUrl(liveBody),
+        pathname: '/user',
+        queryParams: {},
+        status: 200,
+        response,
+        recordedAt: '2024-01-01T00:00:00.000Z',
+        version: '2',
+    };
+}
+
+/**
+ * Verify the scratch store, keyed by mock file
+ */
+function verify(includeUnsafe = false): Cypress.Chainable<Record<string, DriftResult>> {
+    return cy.task('verifyMocks', { dirPath: MOCK_DIR, includeUnsafe }).then((results) => {
+        return Object.fromEntries((results as DriftResult[]).map(result => [result.file, result]));
+    });
+}
+
+describe('Versioning and Drift', () => {
+    const originalDir = Cypress.env('MOCK_DIR');
+    const originalVersion = Cypress.env('API_VERSION');
+
+    beforeEach(() => {
+        resetSequences();
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+    });
+
+    afterEach(() => {
+        Cypress.env('MOCK_DIR', originalDir);
+        Cypress.env('API_VERSION', originalVersion);
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+    });
+
+    it('should stamp new recordings with the API version', () => {
+        Cypress.env('MOCK_DIR', MOCK_DIR);
+        Cypress.env('API_VERSION', '2024-06');
+
+        saveMock({ method: 'GET', url: 'https://api.example.com/user' }, { statusCode: 200, body: { id: 1 } }).then((filePath) => {
+            cy.task('readMock', { filePath }).then((mock) => {
+                expect((mock as RecordedMock).version).to.eq('2024-06');
+            });
+        });
+    });
+
+    it('should report added, removed and retyped fields', () => {
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/user/get_user.json`,
+            data: recording(
+                { id: 1, name: 'Ada', tags: [{ label: 'a' }] },
+                { id: '1', tags: [{ label: 'a' }, { label: 2 }], email: 'ada@example.com' }
+            ),
+        });
+
+        verify().then((results) => {
+            const { changes, version } = results['user/get_user.json'];
+            expect(version).to.eq('2');
+            expect(changes).to.deep.eq([
+                { path: '$.id', change: 'type', recorded: 'number', live: 'string' },
+                { path: '$.name', change: 'removed', recorded: 'string' },
+                { path: '$.tags[].label', change: 'type', recorded: 'string', live: 'number' },
+                { path: '$.email', change: 'added', live: 'string' },
+            ]);
+        });
+    });
+
+    it('should accept matching shapes, nulls and generator tokens', () => {
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/user/get_user.json`,
+            data: recording({ id: '{{counter()}}', name: 'Ada', avatar: null }, { id: 7, name: 'Grace', avatar: 'a.png' }),
+        });
+
+        verify().then((results) => {
+            expect(results['user/get_user.json'].changes).to.deep.eq([]);
+        });
+    });
+
+    it('should report status changes and unreadable files without stopping', () => {
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/user/get_user.json`,
+            data: { ...recording({ id: 1 }, { id: 1 }), status: 201 },
+        });
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/user/get_user_missing.json`,
+            data: { ...recording({ id: 1 }, { id: 1 }), response: { $blob: 'deadbeef' } },
+        });
+
+        verify().then((results) => {
+            expect(results['user/get_user.json'].changes).to.deep.eq([{ path: '$', change: 'status', recorded: '201', live: '200' }]);
+            expect(results['user/get_user_missing.json'].error).to.match(/^unreadable: Missing blob deadbeef/);
+        });
+    });
+
+    it('should only re-send unsafe methods when opted in', () => {
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/user/post_user.json`,
+            data: { ...recording({ id: 1 }, { id: 1 }), method: 'POST', requestBody: { name: 'Ada' } },
+        });
+
+        verify().then((results) => {
+            expect(results['user/post_user.json'].skipped).to.contain('POST may change data');
+        });
+        verify(true).then((results) => {
+            expect(results['user/post_user.json'].skipped).to.eq(undefined);
+            expect(results['user/post_user.json'].changes).to.deep.eq([]);
+        });
+    });
+
+    it('should not re-send redacted requests or flag redacted response values', () => {
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/user/post_user.json`,
+            data: { ...recording({ id: 1 }, { id: 1 }), method: 'POST', requestBody: { password: '***REMOVED***' } },
+        });
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/user/get_user.json`,
+            data: recording({ id: 'hash_1a2b3c', email: 'user_9z8y@example.com' }, { id: 7, email: 'ada@corp.test' }),
+        });
+
+        verify(true).then((results) => {
+            expect(results['user/post_user.json'].skipped).to.contain('redacted');
+            expect(results['user/get_user.json'].changes).to.deep.eq([]);
+        });
+    });
+
+    it('should diff every recorded response of a sequence with the live status', () => {
+        const live = { state: 'done', result: { id: 1 } };
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/user/get_user.json`,
+            data: {
+                ...recording(live, live),
+                sequence: [
+                    { status: 202, response: { state: 'pending' }, recordedAt: '2024-01-01T00:00:00.000Z' },
+                    { status: 200, response: live, recordedAt: '2024-01-01T00:00:01.000Z' },
+                    { status: 200, response: { state: 'done', result: { id: '1' } }, recordedAt: '2024-01-01T00:00:02.000Z' },
+                ],
+            },
+        });
+
+        verify().then((results) => {
+            expect(results['user/get_user.json'].changes).to.deep.eq([
+                { path: '$.result.id', change: 'type', recorded: 'string', live: 'number', response: 2 },
+            ]);
+        });
+    });
+});
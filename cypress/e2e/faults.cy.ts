@@ -0,0 +1,66 @@
+/**
+ * Fault Injection
+ * Checks how fault rules break replayed responses and how often they fire
+ */
+
+import { applyFaults, clearFaults, FaultableReply, getFaults, injectFault } from '../support/faults';
+
+const ORDERS_URL = 'https://api.example.com/api/orders';
+
+/** A replayed reply before faults are applied */
+const reply: FaultableReply = {
+    statusCode: 200,
+    body: { items: [1, 2, 3] },
+    headers: { 'content-type': 'application/json' },
+    delay: 100,
+};
+
+describe('Fault Injection', () => {
+    afterEach(() => {
+        clearFaults();
+    });
+
+    it('should leave replies alone without a matching rule', () => {
+        injectFault({ match: '/api/search', kind: 'status' });
+
+        expect(applyFaults('GET', ORDERS_URL, reply)).to.eq(reply);
+    });
+
+    it('should replace the status code', () => {
+        injectFault({ match: '/api/orders', kind: 'status', statusCode: 503 });
+
+        const broken = applyFaults('GET', ORDERS_URL, reply);
+        expect(broken.statusCode).to.eq(503);
+        expect(broken.body).to.deep.eq(reply.body);
+    });
+
+    it('should turn the reply into a bare network error', () => {
+        injectFault({ match: '/api/orders', kind: 'network-error' });
+
+        expect(applyFaults('GET', ORDERS_URL, reply)).to.deep.eq({ forceNetworkError: true });
+    });
+
+    it('should truncate the body and add delays', () => {
+        injectFault({ match: '/api/orders', kind: 'truncate', truncateAt: 5, times: 1 });
+        injectFault({ match: '/api/orders', kind: 'delay', delay: 2000 });
+
+        expect(applyFaults('GET', ORDERS_URL, reply).body).to.eq('{"ite');
+        expect(applyFaults('GET', ORDERS_URL, reply).delay).to.eq(2100);
+    });
+
+    it('should respect the method filter and the times budget', () => {
+        injectFault({ match: /orders/, kind: 'status', method: 'post', times: 1 });
+
+        expect(applyFaults('GET', ORDERS_URL, reply).statusCode).to.eq(200);
+        expect(applyFaults('POST', ORDERS_URL, reply).statusCode).to.eq(500);
+        expect(applyFaults('POST', ORDERS_URL, reply).statusCode).to.eq(200);
+    });
+
+    it('should never fire with probability 0 and forget rules when cleared', () => {
+        injectFault({ match: '/api/orders', kind: 'status', probability: 0 });
+        expect(applyFaults('GET', ORDERS_URL, reply).statusCode).to.eq(200);
+
+        clearFaults();
+        expect(getFaults()).to.have.length(0);
+    });
+});
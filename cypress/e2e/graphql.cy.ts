@@ -0,0 +1,94 @@
+/**
+ * GraphQL Operations
+ * Checks that GraphQL calls are stored and matched per operation and variables
+ */
+
+import { extractGraphQLOperation, parseOperationName } from '../support/graphql';
+import { createRequestSignature, generateMockRelativePath, matchRequest } from '../support/matcher';
+import { RecordedMock } from '../support/mockStorage';
+
+const ENDPOINT = 'https://api.example.com/graphql';
+
+const GET_USER = 'query GetUser($id: ID!) { user(id: $id) { id name } }';
+
+/**
+ * A stored GraphQL recording for a request body
+ */
+function recording(requestBody: unknown): RecordedMock {
+    return {
+        method: 'POST',
+        url: ENDPOINT,
+        pathname: '/graphql',
+        queryParams: {},
+        status: 200,
+        requestBody,
+        response: { data: {} },
+        recordedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
+
+describe('GraphQL Operations', () => {
+    const originalMode = Cypress.env('GRAPHQL_MODE');
+
+    beforeEach(() => {
+        Cypress.env('GRAPHQL_MODE', true);
+    });
+
+    afterEach(() => {
+        Cypress.env('GRAPHQL_MODE', originalMode);
+    });
+
+    it('should read the operation from the body, the document or a persisted hash', () => {
+        expect(extractGraphQLOperation({ query: GET_USER, variables: { id: 1 } })?.operationName).to.eq('GetUser');
+        expect(parseOperationName('mutation AddPost { addPost { id } }')).to.eq('AddPost');
+
+        const persisted = extractGraphQLOperation({ extensions: { persistedQuery: { sha256Hash: 'abcdef1234567890' } } });
+        expect(persisted?.operationName).to.eq('persisted_abcdef123456');
+        expect(persisted?.persistedQueryHash).to.eq('abcdef1234567890');
+    });
+
+    it('should read GET operations from query params', () => {
+        const url = `${ENDPOINT}?query=${encodeURIComponent(GET_USER)}&variables=${encodeURIComponent('{"id":1}')}`;
+        const signature = createRequestSignature('GET', url);
+
+        expect(signature.graphql?.operationName).to.eq('GetUser');
+        expect(signature.graphql?.hasVariables).to.eq(true);
+    });
+
+    it('should store each operation and variable set in its own file', () => {
+        const first = createRequestSignature('POST', ENDPOINT, { query: GET_USER, variables: { id: 1 } });
+        const second = createRequestSignature('POST', ENDPOINT, { query: GET_USER, variables: { id: 2 } });
+        const noVariables = createRequestSignature('POST', ENDPOINT, { query: 'query Me { me { id } }' });
+
+        expect(generateMockRelativePath(first)).to.match(/^graphql\/GetUser_[a-z0-9]+\.json$/);
+        expect(generateMockRelativePath(first)).not.to.eq(generateMockRelativePath(second));
+        expect(generateMockRelativePath(noVariables)).to.eq('graphql/Me.json');
+    });
+
+    it('should match on operation and variables, not on the document text', () => {
+        const request = createRequestSignature('POST', ENDPOINT, {
+            query: GET_USER.replace(/\s+/g, '  '),
+            variables: { id: 1 },
+        });
+
+        expect(matchRequest(request, recording({ query: GET_USER, variables: { id: 1 } })).tier).to.eq('exact');
+        expect(matchRequest(request, recording({ query: GET_USER, variables: { id: 2 } })).tier).to.eq(null);
+        expect(matchRequest(request, recording({ query: 'query Other { x }', variables: { id: 1 } })).tier).to.eq(null);
+    });
+
+    it('should keep anonymous documents apart', () => {
+        const first = createRequestSignature('POST', ENDPOINT, { query: '{ posts { id } }' });
+        const second = createRequestSignature('POST', ENDPOINT, { query: '{ users { id } }' });
+
+        expect(first.graphql?.operationName).to.match(/^anonymous_/);
+        expect(first.graphql?.operationName).not.to.eq(second.graphql?.operationName);
+    });
+
+    it('should treat GraphQL endpoints as plain REST when the mode is off', () => {
+        Cypress.env('GRAPHQL_MODE', false);
+
+        const signature = createRequestSignature('POST', ENDPOINT, { query: GET_USER, variables: { id: 1 } });
+        expect(signature.graphql).to.eq(undefined);
+        expect(signature.bodyHash).to.be.a('string');
+    });
+});
@@ -0,0 +1,236 @@
+/**
+ * HAR Import/Export
+ * Converts HAR entries into mocks and back, bodies and encodings intact
+ */
+
+import { exportHar, Har, HarEntry, harEntryToMock, importHar, mocksToHar } from '../support/har';
+import { defaultConfig } from '../config/mock.config';
+import { RecordedMock, resetSequences } from '../support/mockStorage';
+
+/**
+ * A HAR entry for one exchange
+ */
+function harEntry(
+    url: string,
+    content: { mimeType: string; text: string; encoding?: string },
+    request: Partial<HarEntry['request']> = {}
+): HarEntry {
+    return {
+        startedDateTime: '2024-01-01T00:00:00.000Z',
+        time: 42,
+        request: {
+            method: 'GET',
+            url,
+            httpVersion: 'HTTP/1.1',
+            headers: [],
+            queryString: [],
+            cookies: [],
+            headersSize: -1,
+            bodySize: 0,
+            ...request,
+        },
+        response: {
+            status: 200,
+            statusText: 'OK',
+            httpVersion: 'HTTP/1.1',
+            headers: [{ name: 'Content-Type', value: content.mimeType }],
+            cookies: [],
+            content: { size: content.text.length, ...content },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: content.text.length,
+        },
+        cache: {},
+        timings: { send: 0, wait: 42, receive: 0 },
+    };
+}
+
+/** 1x1 transparent PNG */
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+/** Scratch directory for HAR files and the mock store they go through */
+const SCRATCH_DIR = 'cypress/reports/har';
+
+describe('HAR Import/Export', () => {
+    describe('Import', () => {
+        it('should turn an entry into a mock', () => {
+            const mock = harEntryToMock(harEntry(
+                'https://api.example.com/posts?userId=1',
+                { mimeType: 'application/json', text: '[{"id":1}]' },
+                {
+                    method: 'post',
+                    headers: [{ name: 'Authorization', value: 'Bearer secret' }],
+                    postData: { mimeType: 'application/json', text: '{"title":"Hello"}' },
+                }
+            ));
+
+            expect(mock.method).to.eq('POST');
+            expect(mock.pathname).to.eq('/posts');
+            expect(mock.queryParams).to.deep.eq({ userId: '1' });
+            expect(mock.requestBody).to.deep.eq({ title: 'Hello' });
+            expect(mock.response).to.deep.eq([{ id: 1 }]);
+            expect(mock.responseTime).to.eq(42);
+            expect(mock.requestHeaders?.authorization).not.to.eq('Bearer secret');
+        });
+
+        it('should decode base64 text bodies', () => {
+            const mock = harEntryToMock(harEntry(
+                'https://api.example.com/status',
+                { mimeType: 'application/json', text: btoa('{"ok":true}'), encoding: 'base64' }
+            ));
+
+            expect(mock.response).to.deep.eq({ ok: true });
+            expect(mock.metadata?.encoding).to.eq(undefined);
+        });
+
+        it('should keep binary bodies base64 encoded', () => {
+            const mock = harEntryToMock(harEntry(
+                'https://api.example.com/logo.png',
+                { mimeType: 'image/png', text: PNG_BASE64, encoding: 'base64' }
+            ));
+
+            expect(mock.response).to.eq(PNG_BASE64);
+            expect(mock.metadata?.encoding).to.eq('base64');
+        });
+    });
+
+    describe('Export', () => {
+        const mock: RecordedMock = {
+            method: 'GET',
+            url: '/jobs/1',
+            pathname: '/jobs/1',
+            queryParams: {},
+            status: 200,
+            responseHeaders: { 'content-type': 'application/json' },
+            response: { state: 'queued' },
+            recordedAt: '2024-01-01T00:00:00.000Z',
+            sequence: [
+                { status: 200, response: { state: 'queued' }, recordedAt: '2024-01-01T00:00:00.000Z' },
+                { status: 200, response: { state: 'done' }, recordedAt: '2024-01-01T00:00:05.000Z' },
+            ],
+        };
+
+        it('should write one entry per recorded response with absolute URLs', () => {
+            const { entries } = mocksToHar([mock], 'https://api.example.com').log;
+
+            expect(entries).to.have.length(2);
+            expect(entries[0].request.url).to.eq('https://api.example.com/jobs/1');
+            expect(entries.map(entry => entry.response.content.text)).to.deep.eq([
+                '{"state":"queued"}',
+                '{"state":"done"}',
+            ]);
+        });
+
+        it('should export binary bodies with their base64 encoding', () => {
+            const imported = harEntryToMock(harEntry(
+                'https://api.example.com/logo.png',
+                { mimeType: 'image/png', text: PNG_BASE64, encoding: 'base64' }
+            ));
+            const [entry] = mocksToHar([imported]).log.entries;
+
+            expect(entry.response.content.encoding).to.eq('base64');
+            expect(entry.response.content.text).to.eq(PNG_BASE64);
+        });
+
+        it('should import its own export unchanged', () => {
+            const original = harEntryToMock(harEntry(
+                'https://api.example.com/posts',
+                { mimeType: 'application/json', text: '{"id":101,"title":"Hello"}' },
+                { method: 'POST', postData: { mimeType: 'application/json', text: '{"title":"Hello"}' } }
+            ));
+            const [entry] = mocksToHar([original]).log.entries;
+            const reimported = harEntryToMock(entry);
+
+            expect(reimported.method).to.eq(original.method);
+            expect(reimported.url).to.eq(original.url);
+            expect(reimported.status).to.eq(original.status);
+            expect(reimported.requestBody).to.deep.eq(original.requestBody);
+            expect(reimported.response).to.deep.eq(original.response);
+        });
+    });
+
+    describe('Mock store', () => {
+        const originalDir = Cypress.env('MOCK_DIR');
+        const originalVersion = Cypress.env('API_VERSION');
+        const originalTemplates = Cypress.env('ROUTE_TEMPLATES');
+        const originalRules = defaultConfig.redactionRules;
+
+        beforeEach(() => {
+            Cypress.env('MOCK_DIR', `${SCRATCH_DIR}/mocks`);
+            resetSequences();
+            cy.task('clearMocks', { dirPath: SCRATCH_DIR });
+        });
+
+        afterEach(() => {
+            Cypress.env('MOCK_DIR', originalDir);
+            Cypress.env('API_VERSION', originalVersion);
+            Cypress.env('ROUTE_TEMPLATES', originalTemplates);
+            defaultConfig.redactionRules = originalRules;
+        });
+
+        after(() => {
+            cy.task('clearMocks', { dirPath: SCRATCH_DIR });
+        });
+
+        it('should import repeated entries as a response sequence and export them again', () => {
+            const poll = (state: string, startedDateTime: string): HarEntry => ({
+                ...harEntry('https://api.example.com/jobs/1', { mimeType: 'application/json', text: JSON.stringify({ state }) }),
+                startedDateTime,
+            });
+            const har: Har = {
+                log: {
+                    version: '1.2',
+                    creator: { name: 'browser', version: '1' },
+                    entries: [poll('queued', '2024-01-01T00:00:00.000Z'), poll('done', '2024-01-01T00:00:05.000Z')],
+                },
+            };
+
+            cy.task('writeHar', { filePath: `${SCRATCH_DIR}/session.har`, data: har });
+            importHar(`${SCRATCH_DIR}/session.har`).then((filePaths) => {
+                expect(filePaths).to.have.length(1);
+
+                cy.task('readMock', { filePath: filePaths[0] }).then((mock) => {
+                    expect((mock as RecordedMock).sequence?.map(entry => entry.response)).to.deep.eq([
+                        { state: 'queued' },
+                        { state: 'done' },
+                    ]);
+                });
+            });
+
+            exportHar(`${SCRATCH_DIR}/export.har`, { all: true }).then((count) => {
+                expect(count).to.eq(2);
+            });
+            cy.task('readHar', { filePath: `${SCRATCH_DIR}/export.har` }).then((exported) => {
+                const texts = (exported as Har).log.entries.map(entry => entry.response.content.text);
+                expect(texts).to.deep.eq(['{"state":"queued"}', '{"state":"done"}']);
+            });
+        });
+
+        it('should save imports the way recordings are saved', () => {
+            Cypress.env('API_VERSION', 'v2');
+            Cypress.env('ROUTE_TEMPLATES', '/users/:id');
+            defaultConfig.redactionRules = [{ field: 'email', action: 'fake' }];
+
+            const user = (id: number): HarEntry => harEntry(
+                `https://api.example.com/users/${id}?email=jane%40corp.com`,
+                { mimeType: 'application/json', text: JSON.stringify({ id, email: 'jane@corp.com' }) }
+            );
+            const har: Har = { log: { version: '1.2', creator: { name: 'browser', version: '1' }, entries: [user(1), user(2)] } };
+
+            cy.task('writeHar', { filePath: `${SCRATCH_DIR}/users.har`, data: har });
+            importHar(`${SCRATCH_DIR}/users.har`).then((filePaths) => {
+                expect(filePaths).to.have.length(1);
+
+                cy.task('readMock', { filePath: filePaths[0] }).then((result) => {
+                    const mock = result as RecordedMock;
+                    expect(mock.pathname).to.eq('/users/:id');
+                    expect(mock.version).to.eq('v2');
+                    expect(mock.url).not.to.contain('jane');
+                    expect((mock.response as { email: string }).email).to.match(/@example\.com$/);
+                    expect(mock.metadata?.source).to.eq('har');
+                    expect(mock.recordedAt).to.eq('2024-01-01T00:00:00.000Z');
+                });
+            });
+        });
+    });
+});
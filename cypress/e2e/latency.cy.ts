@@ -0,0 +1,76 @@
+/**
+ * Latency Simulation
+ * Checks replay delays, seeded ranges, network profiles and per-route rules
+ */
+
+import { assertNetworkProfiles, defaultConfig } from '../config/mock.config';
+import { getReplayTiming } from '../support/latency';
+
+const URL_A = 'https://api.example.com/posts';
+const URL_B = 'https://api.example.com/users';
+
+describe('Latency Simulation', () => {
+    const keys = ['SIMULATE_LATENCY', 'LATENCY', 'LATENCY_SEED', 'NETWORK_PROFILE'];
+    const original = keys.map(key => Cypress.env(key));
+    const originalRules = defaultConfig.latencyRules;
+
+    beforeEach(() => {
+        Cypress.env('SIMULATE_LATENCY', true);
+    });
+
+    afterEach(() => {
+        keys.forEach((key, i) => Cypress.env(key, original[i]));
+        defaultConfig.latencyRules = originalRules;
+    });
+
+    it('should not delay anything while simulation is off', () => {
+        Cypress.env('SIMULATE_LATENCY', false);
+        expect(getReplayTiming('GET', URL_A, 300)).to.deep.eq({});
+    });
+
+    it('should replay the recorded time or a fixed delay', () => {
+        Cypress.env('LATENCY', 'recorded');
+        expect(getReplayTiming('GET', URL_A, 300).delay).to.eq(300);
+
+        Cypress.env('LATENCY', '500');
+        expect(getReplayTiming('GET', URL_A, 300).delay).to.eq(500);
+    });
+
+    it('should pick the same delay from a range on every run', () => {
+        Cypress.env('LATENCY', '200-800');
+        Cypress.env('LATENCY_SEED', 'ci');
+
+        const first = getReplayTiming('GET', URL_A).delay;
+        expect(first).to.be.within(200, 800);
+        expect(getReplayTiming('GET', URL_A).delay).to.eq(first);
+
+        // Other requests and seeds spread over the range
+        const delays = new Set(['a', 'b', 'c', 'd', 'e'].map((seed) => {
+            Cypress.env('LATENCY_SEED', seed);
+            return getReplayTiming('GET', URL_B).delay;
+        }));
+        expect(delays.size).to.be.greaterThan(1);
+    });
+
+    it('should add a network profile on top and throttle the body', () => {
+        Cypress.env('LATENCY', '100');
+        Cypress.env('NETWORK_PROFILE', 'slow-3g');
+
+        expect(getReplayTiming('GET', URL_A)).to.deep.eq({ delay: 500, throttleKbps: 400 });
+    });
+
+    it('should let the first matching route rule win', () => {
+        defaultConfig.latencyRules = [
+            { pattern: '/users', latency: 50, profile: '4g' },
+            { pattern: 'api\\.example\\.com', latency: 1000 },
+        ];
+
+        expect(getReplayTiming('GET', URL_B)).to.deep.eq({ delay: 100, throttleKbps: 9000 });
+        expect(getReplayTiming('GET', URL_A).delay).to.eq(1000);
+    });
+
+    it('should reject unknown profile names', () => {
+        expect(() => assertNetworkProfiles({ networkProfile: 'dial-up', latencyRules: [] })).to.throw('Unknown network profile "dial-up"');
+        expect(() => assertNetworkProfiles({ networkProfile: undefined, latencyRules: [{ pattern: '.', profile: 'slow-3g' }] })).not.to.throw();
+    });
+});
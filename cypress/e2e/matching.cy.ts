@@ -0,0 +1,120 @@
+/**
+ * Matching Tiers
+ * Checks how a request is scored against recordings, tier by tier
+ */
+
+import { findMock, RecordedMock } from '../support/mockStorage';
+import {
+    createRequestSignature,
+    generateMockPath,
+    matchRequest,
+    rankCandidates,
+} from '../support/matcher';
+
+/** Scratch store for the closest-match lookup */
+const MOCK_DIR = 'cypress/reports/matching';
+
+/**
+ * A stored GET /posts recording with the given query
+ */
+function recording(query: Record<string, string>, response: unknown = []): RecordedMock {
+    const search = new URLSearchParams(query).toString();
+    return {
+        method: 'GET',
+        url: `https://api.example.com/posts${search ? `?${search}` : ''}`,
+        pathname: '/posts',
+        queryParams: query,
+        status: 200,
+        response,
+        recordedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
+
+describe('Matching Tiers', () => {
+    const originalTiers = Cypress.env('MATCH_TIERS');
+    const originalDir = Cypress.env('MOCK_DIR');
+
+    afterEach(() => {
+        Cypress.env('MATCH_TIERS', originalTiers);
+        Cypress.env('MOCK_DIR', originalDir);
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+    });
+
+    it('should match the same request exactly', () => {
+        const request = createRequestSignature('GET', 'https://api.example.com/posts?userId=1&page=2');
+        const match = matchRequest(request, recording({ page: '2', userId: '1' }));
+
+        expect(match.tier).to.eq('exact');
+        expect(match.score).to.eq(1);
+    });
+
+    it('should ignore volatile params', () => {
+        const request = createRequestSignature('GET', 'https://api.example.com/posts?userId=1&_t=1700000000');
+        const match = matchRequest(request, recording({ userId: '1' }));
+
+        expect(match.tier).to.eq('volatile');
+    });
+
+    it('should accept a request that adds params as a subset match', () => {
+        const request = createRequestSignature('GET', 'https://api.example.com/posts?userId=1&sort=desc');
+        const match = matchRequest(request, recording({ userId: '1' }));
+
+        expect(match.tier).to.eq('subset');
+        expect(match.reasons[0]).to.contain('sort');
+    });
+
+    it('should score differing params as fuzzy', () => {
+        const request = createRequestSignature('GET', 'https://api.example.com/posts?userId=2&page=1');
+        const match = matchRequest(request, recording({ userId: '1', page: '1' }));
+
+        expect(match.tier).to.eq('fuzzy');
+        expect(match.score).to.eq(0.5);
+    });
+
+    it('should never match another method or path', () => {
+        const mock = recording({});
+
+        expect(matchRequest(createRequestSignature('POST', 'https://api.example.com/posts'), mock).tier).to.eq(null);
+        expect(matchRequest(createRequestSignature('GET', 'https://api.example.com/users'), mock).tier).to.eq(null);
+    });
+
+    it('should tell request bodies apart for write methods', () => {
+        const request = createRequestSignature('POST', 'https://api.example.com/posts', { title: 'A', userId: 1 });
+        const sameBody = createRequestSignature('POST', 'https://api.example.com/posts', { userId: 1, title: 'A' });
+        const mock = { ...recording({}), method: 'POST', requestBody: { title: 'B', userId: 1 } };
+
+        expect(request.bodyHash).to.eq(sameBody.bodyHash);
+        expect(matchRequest(request, mock).tier).to.eq('fuzzy');
+        expect(matchRequest(request, { ...mock, requestBody: { userId: 1, title: 'A' } }).tier).to.eq('exact');
+    });
+
+    it('should rank candidates strictest tier first and drop tiers not enabled', () => {
+        const request = createRequestSignature('GET', 'https://api.example.com/posts?userId=1&sort=desc');
+        const candidates = [
+            { filePath: 'fuzzy.json', mock: recording({ userId: '2', sort: 'desc' }) },
+            { filePath: 'subset.json', mock: recording({ userId: '1' }) },
+        ];
+
+        Cypress.env('MATCH_TIERS', 'exact,volatile,subset');
+        expect(rankCandidates(request, candidates).map(c => c.filePath)).to.deep.eq(['subset.json']);
+
+        Cypress.env('MATCH_TIERS', 'exact,volatile,subset,fuzzy');
+        expect(rankCandidates(request, candidates).map(c => c.filePath)).to.deep.eq(['subset.json', 'fuzzy.json']);
+    });
+
+    it('should fall back to the closest stored recording and say why', () => {
+        Cypress.env('MOCK_DIR', MOCK_DIR);
+        Cypress.env('MATCH_TIERS', 'exact,volatile,subset,fuzzy');
+        const stored = recording({ userId: '1', page: '1' }, [{ id: 1 }]);
+        cy.task('writeMock', { filePath: generateMockPath(createRequestSignature('GET', stored.url)), data: stored });
+
+        findMock(createRequestSignature('GET', 'https://api.example.com/posts?userId=1&page=3')).then((lookup) => {
+            expect(lookup?.match.tier).to.eq('fuzzy');
+            expect(lookup?.match.reasons.join(' ')).to.contain('page');
+            expect(lookup?.mock.response).to.deep.eq([{ id: 1 }]);
+        });
+    });
+});
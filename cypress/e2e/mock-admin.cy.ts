@@ -0,0 +1,134 @@
+/**
+ * Mock Management CLI
+ * Checks the mock-recorder subcommands against a scratch store, run the way a developer runs them
+ */
+
+import { RecordedMock } from '../support/mockStorage';
+
+/** Scratch store the CLI works on */
+const MOCK_DIR = 'cypress/reports/mock-admin';
+
+/**
+ * A recording in canonical field order
+ */
+function recording(method: string, url: string, pathname: string, extra: Partial<RecordedMock> = {}): RecordedMock {
+    return {
+        method,
+        url,
+        pathname,
+        queryParams: {},
+        status: 200,
+        requestHeaders: { origin: 'https://app.staging.example.com' },
+        response: { ok: true },
+        recordedAt: '2024-01-01T00:00:00.000Z',
+        ...extra,
+    };
+}
+
+/**
+ * Run a mock-recorder subcommand through the package's executable
+ */
+function cli(args: string): Cypress.Chainable<Cypress.Exec> {
+    return cy.exec(`node bin/mock-recorder.js ${args} --dir ${MOCK_DIR}`, { failOnNonZeroExit: false });
+}
+
+describe('Mock Management CLI', () => {
+    beforeEach(() => {
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/posts/get_posts_1.json`,
+            data: recording('GET', 'https://api.staging.example.com/posts/1', '/posts/1'),
+        });
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/posts/get_posts.json`,
+            data: recording('GET', 'https://api.staging.example.com/posts', '/posts', {
+                sequence: [
+                    { status: 200, response: [], recordedAt: '2024-01-01T00:00:00.000Z' },
+                    { status: 200, response: [{ id: 1 }], recordedAt: '2024-01-02T00:00:00.000Z' },
+                ],
+            }),
+        });
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/users/delete_users_7.json`,
+            data: recording('DELETE', 'https://api.staging.example.com/users/7', '/users/7', { status: 404 }),
+        });
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+    });
+
+    it('should list and summarize the store', () => {
+        cli('list').then((result) => {
+            expect(result.code).to.eq(0);
+            expect(result.stdout).to.match(/^METHOD\s+PATH\s+STATUS\s+RECORDED\s+FILE/);
+            expect(result.stdout).to.match(/GET\s+\/posts\s+200 \(x2\)\s+2024-01-01 00:00:00\s+posts\/get_posts\.json/);
+            expect(result.stdout).to.contain('3 mocks');
+        });
+
+        cli('stats').then((result) => {
+            expect(result.stdout).to.contain(`3 mocks in ${MOCK_DIR}`);
+            expect(result.stdout).to.match(/Methods:\s+GET 2, DELETE 1/);
+            expect(result.stdout).to.match(/Statuses:\s+2xx 2, 4xx 1/);
+            expect(result.stdout).to.match(/Sequences:\s+1 mocks \(2 responses\)/);
+        });
+    });
+
+    it('should show a mock by signature, closest matches only on request', () => {
+        cli('show "GET /posts/1"').then((result) => {
+            expect(result.code).to.eq(0);
+            expect(result.stdout).to.contain(`# ${MOCK_DIR}/posts/get_posts_1.json`);
+            expect(result.stdout).to.contain('"pathname": "/posts/1"');
+        });
+
+        cli('show "GET /posts?sort=desc"').then((result) => {
+            expect(result.code).to.eq(1);
+            expect(result.stderr).to.contain('No mock found for GET /posts?sort=desc');
+        });
+        cli('show "GET /posts?sort=desc" --closest').then((result) => {
+            expect(result.code).to.eq(0);
+            expect(result.stdout).to.contain('(subset match');
+        });
+    });
+
+    it('should remove mocks by route, previewing with --dry-run', () => {
+        cli('rm "DELETE /users/:id" --dry-run').then((result) => {
+            expect(result.stdout).to.contain('users/delete_users_7.json');
+            expect(result.stdout).to.contain('1 mocks would be removed');
+        });
+        cy.task('mockExists', { filePath: `${MOCK_DIR}/users/delete_users_7.json` }).should('eq', true);
+
+        cli('rm "DELETE /users/:id"').its('stdout').should('contain', '1 mocks removed');
+        cy.task('mockExists', { filePath: `${MOCK_DIR}/users/delete_users_7.json` }).should('eq', false);
+    });
+
+    it('should move recordings to another host', () => {
+        cli('rename-host https://api.staging.example.com https://api.example.com').its('stdout').should('contain', '3 mocks updated');
+
+        cy.task('readMock', { filePath: `${MOCK_DIR}/posts/get_posts_1.json` }).then((result) => {
+            const mock = result as RecordedMock;
+            expect(mock.url).to.eq('https://api.example.com/posts/1');
+            expect(mock.requestHeaders?.origin).to.eq('https://app.staging.example.com');
+        });
+    });
+
+    it('should put mocks in canonical order, failing --check until then', () => {
+        const { method, ...rest } = recording('GET', 'https://api.example.com/tags', '/tags', {
+            responseHeaders: { 'x-b': '2', 'x-a': '1' },
+        });
+        cy.task('writeMock', { filePath: `${MOCK_DIR}/tags/get_tags.json`, data: { ...rest, method } });
+
+        cli('reformat --check').then((result) => {
+            expect(result.code).to.eq(1);
+            expect(result.stdout).to.contain('tags/get_tags.json');
+            expect(result.stdout).to.contain('1 mocks not in canonical format');
+        });
+        cli('reformat').its('stdout').should('contain', '1 mocks reformatted');
+        cli('reformat --check').its('code').should('eq', 0);
+
+        cy.task('readMock', { filePath: `${MOCK_DIR}/tags/get_tags.json` }).then((mock) => {
+            expect(Object.keys(mock as object)[0]).to.eq('method');
+            expect(Object.keys((mock as RecordedMock).responseHeaders!)).to.deep.eq(['x-a', 'x-b']);
+        });
+    });
+});
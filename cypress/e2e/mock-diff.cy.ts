@@ -0,0 +1,96 @@
+/**
+ * Mock Diff
+ * Checks how two recording runs are paired and which differences are reported
+ */
+
+import { RecordedMock } from '../support/mockStorage';
+
+/** Scratch directory holding the two runs */
+const SCRATCH_DIR = 'cypress/reports/mock-diff';
+const BEFORE_DIR = `${SCRATCH_DIR}/before`;
+const AFTER_DIR = `${SCRATCH_DIR}/after`;
+
+/**
+ * A GET recording
+ */
+function recording(url: string, pathname: string, response: unknown, overrides: Partial<RecordedMock> = {}): RecordedMock {
+    return {
+        method: 'GET',
+        url,
+        pathname,
+        queryParams: {},
+        status: 200,
+        responseHeaders: { 'content-type': 'application/json', date: 'Mon, 01 Jan 2024 00:00:00 GMT' },
+        response,
+        recordedAt: '2024-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+/**
+ * Run the mock-diff CLI on the two runs
+ */
+function diffRuns(): Cypress.Chainable<Cypress.Exec> {
+    return cy.exec(`npx tsx scripts/mock-diff.ts ${BEFORE_DIR} ${AFTER_DIR}`, { failOnNonZeroExit: false });
+}
+
+describe('Mock Diff', () => {
+    beforeEach(() => {
+        cy.task('clearMocks', { dirPath: SCRATCH_DIR });
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: SCRATCH_DIR });
+    });
+
+    it('should ignore recording times and volatile headers', () => {
+        const post = recording('https://api.example.com/posts/1', '/posts/1', { id: 1, title: 'Hello' });
+        cy.task('writeMock', { filePath: `${BEFORE_DIR}/posts/get_posts_1.json`, data: post });
+        cy.task('writeMock', {
+            filePath: `${AFTER_DIR}/posts/get_posts_1.json`,
+            data: { ...post, recordedAt: '2024-02-01T00:00:00.000Z', responseHeaders: { 'content-type': 'application/json', date: 'Thu, 01 Feb 2024 00:00:00 GMT' } },
+        });
+
+        diffRuns().then((result) => {
+            expect(result.code).to.eq(0);
+            expect(result.stdout).to.contain('No semantic differences');
+        });
+    });
+
+    it('should report changed values, statuses and endpoints', () => {
+        cy.task('writeMock', { filePath: `${BEFORE_DIR}/posts/get_posts_1.json`, data: recording('https://api.example.com/posts/1', '/posts/1', { id: 1, title: 'Hello' }) });
+        cy.task('writeMock', { filePath: `${BEFORE_DIR}/users/get_users.json`, data: recording('https://api.example.com/users', '/users', []) });
+        cy.task('writeMock', {
+            filePath: `${AFTER_DIR}/posts/get_posts_1.json`,
+            data: recording('https://api.example.com/posts/1', '/posts/1', { id: 1, title: 'Hi', tags: [] }, { status: 203 }),
+        });
+        cy.task('writeMock', { filePath: `${AFTER_DIR}/comments/get_comments.json`, data: recording('https://api.example.com/comments', '/comments', []) });
+
+        diffRuns().then((result) => {
+            expect(result.code).to.eq(1);
+            expect(result.stdout).to.contain('+ GET /comments');
+            expect(result.stdout).to.contain('- GET /users');
+            expect(result.stdout).to.contain('~ GET /posts/1');
+            expect(result.stdout).to.contain('~ status: 200 -> 203');
+            expect(result.stdout).to.contain('~ body.title');
+            expect(result.stdout).to.contain('+ body.tags');
+        });
+    });
+
+    it('should pair route-template mocks recorded from different concrete URLs', () => {
+        cy.task('writeMock', {
+            filePath: `${BEFORE_DIR}/users/get_users_id.json`,
+            data: recording('https://api.example.com/users/1', '/users/:id', { name: 'Ada' }),
+        });
+        cy.task('writeMock', {
+            filePath: `${AFTER_DIR}/users/get_users_id.json`,
+            data: recording('https://api.example.com/users/7', '/users/:id', { name: 'Grace' }),
+        });
+
+        diffRuns().then((result) => {
+            expect(result.stdout).to.contain('~ GET /users/:id (users/get_users_id.json)');
+            expect(result.stdout).not.to.contain('+ GET');
+            expect(result.stdout).not.to.contain('- GET');
+        });
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * Mock Server
+ * Checks the standalone HTTP server: replay from the store, misses, sequences and
+ * the proxy-and-record fallback (a second server stands in for the upstream API)
+ */
+
+import { createRequestSignature, generateMockRelativePath } from '../support/matcher';
+import { RecordedMock } from '../support/mockStorage';
+
+/** Store the server replays */
+const MOCK_DIR = 'cypress/reports/mock-server/mocks';
+
+/** Store of the stand-in upstream API */
+const UPSTREAM_DIR = 'cypress/reports/mock-server/upstream';
+
+const SERVER_PORT = 4090;
+const UPSTREAM_PORT = 4091;
+const SERVER = `http://localhost:${SERVER_PORT}`;
+
+/**
+ * A GET recording for a path
+ */
+function recording(pathname: string, response: unknown, extra: Partial<RecordedMock> = {}): RecordedMock {
+    return {
+        method: 'GET',
+        url: `https://api.example.com${pathname}`,
+        pathname,
+        queryParams: {},
+        status: 200,
+        responseHeaders: { 'content-type': 'application/json', 'x-recorded': 'yes', 'content-length': '999' },
+        response,
+        recordedAt: '2024-01-01T00:00:00.000Z',
+        ...extra,
+    };
+}
+
+/**
+ * Where a GET recording of a path is stored, relative to the store
+ */
+function storedPath(pathname: string): string {
+    return generateMockRelativePath(createRequestSignature('GET', `https://api.example.com${pathname}`));
+}
+
+describe('Mock Server', () => {
+    beforeEach(() => {
+        cy.task('clearMocks', { dirPath: 'cypress/reports/mock-server' });
+    });
+
+    afterEach(() => {
+        cy.task('stopMockServers');
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: 'cypress/reports/mock-server' });
+    });
+
+    it('should serve the recorded status, headers and body', () => {
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/${storedPath('/api/posts/1')}`,
+            data: recording('/api/posts/1', { id: 1, title: 'Hello' }, { status: 203 }),
+        });
+        cy.task('startMockServer', { dir: MOCK_DIR, port: SERVER_PORT });
+
+        cy.request(`${SERVER}/api/posts/1`).then((response) => {
+            expect(response.status).to.eq(203);
+            expect(response.body).to.deep.eq({ id: 1, title: 'Hello' });
+            expect(response.headers['x-recorded']).to.eq('yes');
+            expect(response.headers['access-control-allow-origin']).to.eq('*');
+        });
+    });
+
+    it('should answer requests without a mock with a 404 naming the expected file', () => {
+        cy.task('startMockServer', { dir: MOCK_DIR, port: SERVER_PORT });
+
+        cy.request({ url: `${SERVER}/api/missing`, failOnStatusCode: false }).then((response) => {
+            expect(response.status).to.eq(404);
+            expect(response.body.error).to.eq('Mock not found');
+            expect(response.body.expectedMock).to.contain(storedPath('/api/missing'));
+        });
+    });
+
+    it('should replay sequences in order until reset', () => {
+        cy.task('writeMock', {
+            filePath: `${MOCK_DIR}/${storedPath('/api/jobs')}`,
+            data: recording('/api/jobs', { state: 'queued' }, {
+                sequence: [
+                    { status: 202, response: { state: 'queued' }, recordedAt: '2024-01-01T00:00:00.000Z' },
+                    { status: 200, response: { state: 'done' }, recordedAt: '2024-01-01T00:00:01.000Z' },
+                ],
+            }),
+        });
+        cy.task('startMockServer', { dir: MOCK_DIR, port: SERVER_PORT });
+        cy.request('POST', `${SERVER}/__mock-recorder/reset`);
+
+        cy.request(`${SERVER}/api/jobs`).its('body.state').should('eq', 'queued');
+        cy.request(`${SERVER}/api/jobs`).its('body.state').should('eq', 'done');
+        cy.request(`${SERVER}/api/jobs`).its('body.state').should('eq', 'done');
+
+        cy.request('POST', `${SERVER}/__mock-recorder/reset`);
+        cy.request(`${SERVER}/api/jobs`).its('body.state').should('eq', 'queued');
+    });
+
+    it('should proxy misses to the upstream and record them', () => {
+        cy.task('writeMock', { filePath: `${UPSTREAM_DIR}/${storedPath('/api/users')}`, data: recording('/api/users', [{ id: 7 }]) });
+        cy.task('startMockServer', { dir: UPSTREAM_DIR, port: UPSTREAM_PORT });
+        cy.task('startMockServer', { dir: MOCK_DIR, port: SERVER_PORT, proxy: `http://localhost:${UPSTREAM_PORT}` });
+
+        cy.request(`${SERVER}/api/users`).its('body').should('deep.equal', [{ id: 7 }]);
+
+        cy.task('readMock', { filePath: `${MOCK_DIR}/${storedPath('/api/users')}` }).then((result) => {
+            const mock = result as RecordedMock;
+            expect(mock.pathname).to.eq('/api/users');
+            expect(mock.response).to.deep.eq([{ id: 7 }]);
+        });
+    });
+
+    it('should only proxy misses when recording is off', () => {
+        cy.task('writeMock', { filePath: `${UPSTREAM_DIR}/${storedPath('/api/users')}`, data: recording('/api/users', [{ id: 7 }]) });
+        cy.task('startMockServer', { dir: UPSTREAM_DIR, port: UPSTREAM_PORT });
+        cy.task('startMockServer', { dir: MOCK_DIR, port: SERVER_PORT, proxy: `http://localhost:${UPSTREAM_PORT}`, record: false });
+
+        cy.request(`${SERVER}/api/users`).its('status').should('eq', 200);
+        cy.task('mockExists', { filePath: `${MOCK_DIR}/${storedPath('/api/users')}` }).should('eq', false);
+    });
+});
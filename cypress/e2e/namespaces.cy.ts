@@ -0,0 +1,87 @@
+/**
+ * Mock Namespaces
+ * Checks where scoped recordings go and how lookups fall back to wider scopes
+ */
+
+import { createRequestSignature, generateMockPath } from '../support/matcher';
+import { clearCache, findMock, getMockPath, getScopeNamespaces, RecordedMock, setMockScope } from '../support/mockStorage';
+
+/** Scratch mock store */
+const MOCK_DIR = 'cypress/reports/namespaces';
+
+const signature = createRequestSignature('GET', 'https://api.example.com/profile');
+
+/**
+ * A GET /profile recording answering with a name
+ */
+function recording(name: string): RecordedMock {
+    return {
+        method: 'GET',
+        url: 'https://api.example.com/profile',
+        pathname: '/profile',
+        queryParams: {},
+        status: 200,
+        response: { name },
+        recordedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
+
+describe('Mock Namespaces', () => {
+    const originalDir = Cypress.env('MOCK_DIR');
+    const specNamespace = `__specs__/${Cypress.spec.name.replace(/\.cy\.[jt]sx?$/, '').toLowerCase()}`;
+
+    beforeEach(() => {
+        Cypress.env('MOCK_DIR', MOCK_DIR);
+        clearCache();
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+    });
+
+    afterEach(() => {
+        Cypress.env('MOCK_DIR', originalDir);
+        setMockScope('global');
+        clearCache();
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+    });
+
+    it('should search the global tree only in global scope', () => {
+        setMockScope('global');
+
+        expect(getScopeNamespaces()).to.deep.eq(['']);
+        expect(getMockPath(signature)).to.eq(`${MOCK_DIR}/profile/get_profile.json`);
+    });
+
+    it('should record per spec and fall back to the global tree', () => {
+        setMockScope('spec');
+
+        expect(getScopeNamespaces()).to.deep.eq([specNamespace, '']);
+        expect(getMockPath(signature)).to.eq(`${MOCK_DIR}/${specNamespace}/profile/get_profile.json`);
+    });
+
+    it('should record per test and fall back to the spec, then the global tree', () => {
+        setMockScope('test');
+
+        const [testNamespace, ...rest] = getScopeNamespaces();
+        expect(rest).to.deep.eq([specNamespace, '']);
+        expect(testNamespace).to.match(new RegExp(`^${specNamespace}/__tests__/mock-namespaces-should-record-per-test`));
+    });
+
+    it('should prefer the most specific recording', () => {
+        setMockScope('test');
+        cy.task('writeMock', { filePath: generateMockPath(signature), data: recording('global') });
+
+        findMock(signature).then((lookup) => {
+            expect(lookup?.mock.response).to.deep.eq({ name: 'global' });
+
+            clearCache();
+            cy.task('writeMock', { filePath: getMockPath(signature), data: recording('test') });
+        });
+
+        findMock(signature).then((lookup) => {
+            expect(lookup?.mock.response).to.deep.eq({ name: 'test' });
+            expect(lookup?.source).to.eq(getMockPath(signature));
+        });
+    });
+});
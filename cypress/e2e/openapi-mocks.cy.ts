@@ -0,0 +1,110 @@
+/**
+ * OpenAPI Mock Generation
+ * Checks the mocks and route index generated from an OpenAPI 3 document
+ */
+
+import { RecordedMock } from '../support/mockStorage';
+
+/** Scratch directory for the document and the generated store */
+const SCRATCH_DIR = 'cypress/reports/openapi-mocks';
+const SPEC_PATH = `${SCRATCH_DIR}/petstore.json`;
+const MOCK_DIR = `${SCRATCH_DIR}/mocks`;
+
+const petstore = {
+    openapi: '3.0.3',
+    info: { title: 'Petstore', version: '1.0.0' },
+    servers: [{ url: 'https://api.example.com/v1' }],
+    paths: {
+        '/pets': {
+            get: {
+                operationId: 'listPets',
+                responses: {
+                    200: {
+                        description: 'All pets',
+                        content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } } },
+                    },
+                },
+            },
+        },
+        '/pets/{petId}': {
+            get: {
+                operationId: 'getPet',
+                responses: {
+                    404: { description: 'Not found' },
+                    200: {
+                        description: 'One pet',
+                        content: { 'application/json': { example: { id: 7, name: 'Rex', tag: 'dog' } } },
+                    },
+                },
+            },
+        },
+    },
+    components: {
+        schemas: {
+            Pet: {
+                type: 'object',
+                properties: {
+                    id: { type: 'integer', minimum: 1 },
+                    name: { type: 'string' },
+                    status: { type: 'string', enum: ['available', 'sold'] },
+                    bornAt: { type: 'string', format: 'date-time' },
+                },
+            },
+        },
+    },
+};
+
+/**
+ * Run the generator CLI
+ */
+function generate(args = ''): Cypress.Chainable<Cypress.Exec> {
+    return cy.exec(`npx tsx scripts/openapi-mocks.ts ${SPEC_PATH} --dir ${MOCK_DIR} ${args}`);
+}
+
+describe('OpenAPI Mock Generation', () => {
+    beforeEach(() => {
+        cy.task('clearMocks', { dirPath: SCRATCH_DIR });
+        cy.writeFile(SPEC_PATH, petstore);
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: SCRATCH_DIR });
+    });
+
+    it('should fake responses from schemas', () => {
+        generate();
+
+        cy.task('readMock', { filePath: `${MOCK_DIR}/v1/pets/get_v1_pets.json` }).then((result) => {
+            const mock = result as RecordedMock;
+            expect(mock.pathname).to.eq('/v1/pets');
+            expect(mock.status).to.eq(200);
+            expect(mock.response).to.deep.eq([{ id: 1, name: 'name', status: 'available', bornAt: '2024-01-01T00:00:00.000Z' }]);
+            expect(mock.metadata?.operationId).to.eq('listPets');
+        });
+    });
+
+    it('should use examples and index path-parameter routes', () => {
+        generate();
+
+        cy.task('readMock', { filePath: `${MOCK_DIR}/v1/pets/get_v1_pets_by-petId.json` }).then((result) => {
+            const mock = result as RecordedMock;
+            expect(mock.pathname).to.eq('/v1/pets/:petId');
+            expect(mock.response).to.deep.eq({ id: 7, name: 'Rex', tag: 'dog' });
+        });
+
+        cy.task('readMock', { filePath: `${MOCK_DIR}/.routes.json` }).then((index) => {
+            expect(index).to.deep.eq({ templates: ['/v1/pets/:petId'] });
+        });
+    });
+
+    it('should keep existing mocks unless forced', () => {
+        generate();
+
+        generate().then((result) => {
+            expect(result.stdout).to.contain('Generated 0 mocks');
+        });
+        generate('--force').then((result) => {
+            expect(result.stdout).to.contain('Generated 2 mocks');
+        });
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * Mock Overrides
+ * Checks per-test patches on replayed responses: status, headers and body patches
+ */
+
+import { FaultableReply } from '../support/faults';
+import { applyJsonPatch, applyOverrides, clearOverrides, mergePatch, overrideMock } from '../support/overrides';
+
+const ORDERS_URL = 'https://api.example.com/api/orders';
+
+/**
+ * A replayed GET /api/orders reply
+ */
+function recorded(): FaultableReply {
+    return {
+        statusCode: 200,
+        headers: { 'Content-Type': 'application/json', 'X-Trace': 'abc' },
+        body: { user: { id: 1, name: 'Ada' }, orders: [{ id: 10, status: 'paid' }] },
+    };
+}
+
+describe('Mock Overrides', () => {
+    afterEach(() => {
+        clearOverrides();
+    });
+
+    it('should leave replies alone without a matching override', () => {
+        overrideMock({ method: 'POST', url: '/api/orders' }, { statusCode: 500 });
+        overrideMock('/api/users', { statusCode: 404 });
+
+        expect(applyOverrides('GET', ORDERS_URL, recorded())).to.deep.eq(recorded());
+    });
+
+    it('should replace the status and headers, keeping the rest of the recording', () => {
+        overrideMock(/\/api\/orders$/, { statusCode: 403, headers: { 'x-trace': null, 'X-Reason': 'suspended' } });
+
+        const reply = applyOverrides('GET', ORDERS_URL, recorded());
+        expect(reply.statusCode).to.eq(403);
+        expect(reply.headers).to.deep.eq({ 'Content-Type': 'application/json', 'x-reason': 'suspended' });
+        expect(reply.body).to.deep.eq(recorded().body);
+    });
+
+    it('should merge-patch, then JSON-patch the body', () => {
+        overrideMock('/api/orders', {
+            merge: { orders: [], user: { name: null } },
+            patch: [{ op: 'add', path: '/orders/-', value: { id: 11 } }, { op: 'copy', from: '/user/id', path: '/userId' }],
+        });
+
+        expect(applyOverrides('GET', ORDERS_URL, recorded()).body).to.deep.eq({ user: { id: 1 }, orders: [{ id: 11 }], userId: 1 });
+    });
+
+    it('should apply every matching override in order', () => {
+        overrideMock('/api/orders', { statusCode: 500 });
+        overrideMock({ method: 'get', url: 'ORDERS' }, { statusCode: 503 });
+
+        expect(applyOverrides('GET', ORDERS_URL, recorded()).statusCode).to.eq(503);
+
+        clearOverrides();
+        expect(applyOverrides('GET', ORDERS_URL, recorded()).statusCode).to.eq(200);
+    });
+
+    it('should follow the merge patch and JSON Patch RFCs', () => {
+        expect(mergePatch({ a: 1, b: { c: 2 } }, { b: { c: null, d: 3 } })).to.deep.eq({ a: 1, b: { d: 3 } });
+        expect(mergePatch({ a: 1 }, ['x'])).to.deep.eq(['x']);
+
+        const doc = { items: [{ qty: 1 }, { qty: 2 }] };
+        expect(applyJsonPatch(doc, [
+            { op: 'test', path: '/items/1/qty', value: 2 },
+            { op: 'move', from: '/items/0', path: '/first' },
+            { op: 'remove', path: '/items/0' },
+        ])).to.deep.eq({ items: [], first: { qty: 1 } });
+
+        expect(() => applyJsonPatch({ a: 1 }, [{ op: 'replace', path: '/b', value: 2 }])).to.throw('JSON Patch path not found: /b');
+        expect(() => applyJsonPatch({ a: 1 }, [{ op: 'test', path: '/a', value: 2 }])).to.throw('JSON Patch test failed at /a');
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * Recording Proxy
+ * Checks that server-side traffic is recorded in the same layout and shape as browser
+ * recordings, with the test's env (a mock server stands in for the upstream API)
+ */
+
+import { createRequestSignature, createTemplatedSignature, generateMockRelativePath } from '../support/matcher';
+import { RecordedMock } from '../support/mockStorage';
+
+/** Store the proxy records into */
+const MOCK_DIR = 'cypress/reports/recording-proxy/mocks';
+
+/** Store of the stand-in upstream API */
+const UPSTREAM_DIR = 'cypress/reports/recording-proxy/upstream';
+
+const PROXY_PORT = 4092;
+const UPSTREAM_PORT = 4093;
+const PROXY = `http://localhost:${PROXY_PORT}`;
+const UPSTREAM = `http://localhost:${UPSTREAM_PORT}`;
+
+/**
+ * Where a GET of a path is stored, relative to the store
+ */
+function storedPath(pathname: string): string {
+    return generateMockRelativePath(createRequestSignature('GET', `${UPSTREAM}${pathname}`));
+}
+
+/**
+ * Give the upstream a recording for a path
+ */
+function upstreamMock(pathname: string, response: unknown): void {
+    const mock: RecordedMock = {
+        method: 'GET',
+        url: `${UPSTREAM}${pathname}`,
+        pathname: pathname.split('?')[0],
+        queryParams: createRequestSignature('GET', `${UPSTREAM}${pathname}`).queryParams,
+        status: 200,
+        responseHeaders: { 'content-type': 'application/json' },
+        response,
+        recordedAt: '2024-01-01T00:00:00.000Z',
+    };
+    cy.task('writeMock', { filePath: `${UPSTREAM_DIR}/${storedPath(pathname)}`, data: mock });
+}
+
+describe('Recording Proxy', () => {
+    beforeEach(() => {
+        cy.task('clearMocks', { dirPath: 'cypress/reports/recording-proxy' });
+        upstreamMock('/api/posts/1', { id: 1 });
+        upstreamMock('/api/posts/2', { id: 2 });
+        cy.task('startMockServer', { dir: UPSTREAM_DIR, port: UPSTREAM_PORT });
+    });
+
+    afterEach(() => {
+        cy.task('stopMockServers');
+        cy.task('resetNodeProxy', { namespaces: [''] });
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: 'cypress/reports/recording-proxy' });
+    });
+
+    it('should record exchanges where browser recordings go, repeat calls as a sequence', () => {
+        cy.task('startRecordingProxy', { target: UPSTREAM, dir: MOCK_DIR, port: PROXY_PORT });
+
+        cy.request({ url: `${PROXY}/api/posts/1`, headers: { authorization: 'Bearer secret' } }).its('body').should('deep.equal', { id: 1 });
+        cy.request(`${PROXY}/api/posts/1`);
+
+        cy.task('readMock', { filePath: `${MOCK_DIR}/${storedPath('/api/posts/1')}` }).then((result) => {
+            const mock = result as RecordedMock;
+            expect(mock.url).to.eq(`${UPSTREAM}/api/posts/1`);
+            expect(mock.pathname).to.eq('/api/posts/1');
+            expect(mock.response).to.deep.eq({ id: 1 });
+            expect(mock.requestHeaders?.authorization).to.eq('***REMOVED***');
+            expect(mock.sequence?.map(response => response.status)).to.deep.eq([200, 200]);
+        });
+    });
+
+    it('should store route families under their template and stamp the API version of the env', () => {
+        cy.task('resetNodeProxy', { namespaces: [''], env: { ROUTE_TEMPLATES: '/api/posts/:id', API_VERSION: '2024-06' } });
+        cy.task('startRecordingProxy', { target: UPSTREAM, dir: MOCK_DIR, port: PROXY_PORT });
+
+        cy.request(`${PROXY}/api/posts/1`);
+        cy.request(`${PROXY}/api/posts/2`);
+
+        const templated = createTemplatedSignature(createRequestSignature('GET', `${UPSTREAM}/api/posts/1`), '/api/posts/:id');
+        cy.task('readMock', { filePath: `${MOCK_DIR}/${generateMockRelativePath(templated)}` }).then((result) => {
+            const mock = result as RecordedMock;
+            expect(mock.pathname).to.eq('/api/posts/:id');
+            expect(mock.version).to.eq('2024-06');
+            expect(mock.response).to.deep.eq({ id: 1 });
+        });
+        cy.task('mockExists', { filePath: `${MOCK_DIR}/${storedPath('/api/posts/2')}` }).should('eq', false);
+    });
+
+    it('should record into the namespace of the test scope', () => {
+        cy.task('resetNodeProxy', { namespaces: ['__specs__/checkout', ''] });
+        cy.task('startRecordingProxy', { target: UPSTREAM, dir: MOCK_DIR, port: PROXY_PORT });
+
+        cy.request(`${PROXY}/api/posts/2`);
+
+        cy.task('mockExists', { filePath: `${MOCK_DIR}/__specs__/checkout/${storedPath('/api/posts/2')}` }).should('eq', true);
+    });
+
+    it('should replay with the match tiers of the env', () => {
+        upstreamMock('/api/posts?userId=1&page=1', [{ id: 1 }]);
+        cy.task('startMockServer', { dir: UPSTREAM_DIR, port: PROXY_PORT });
+
+        cy.request({ url: `${PROXY}/api/posts?userId=1&page=2`, failOnStatusCode: false }).its('status').should('eq', 404);
+
+        cy.task('resetNodeProxy', { namespaces: [''], env: { MATCH_TIERS: 'exact,volatile,subset,fuzzy' } });
+        cy.request(`${PROXY}/api/posts?userId=1&page=2`).its('body').should('deep.equal', [{ id: 1 }]);
+    });
+});
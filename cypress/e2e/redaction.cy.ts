@@ -0,0 +1,92 @@
+/**
+ * Redaction
+ * Checks that recordings are redacted on both sides and still match on replay
+ */
+
+import { defaultConfig, RedactionRule } from '../config/mock.config';
+import { createRequestSignature, getSignatureKey } from '../support/matcher';
+import { createStoredSignature, getIssuedTokens, redactBody, redactRequest } from '../support/redaction';
+
+/** Rules under test, swapped into the config for this spec */
+const rules: RedactionRule[] = [
+    { field: 'email', action: 'fake' },
+    { field: 'card', action: 'mask' },
+    { field: 'ssn', action: 'drop' },
+    { field: 'customerId', action: 'hash' },
+    { path: '$.session.refresh', action: 'token' },
+    { field: 'x-customer-id', action: 'hash' },
+];
+
+describe('Redaction', () => {
+    const originalRules = defaultConfig.redactionRules;
+
+    before(() => {
+        defaultConfig.redactionRules = rules;
+    });
+
+    after(() => {
+        defaultConfig.redactionRules = originalRules;
+    });
+
+    it('should apply each action to response bodies', () => {
+        const redacted = redactBody('https://api.example.com/account', {
+            email: 'jane@corp.com',
+            card: '4111111111111111',
+            ssn: '123-45-6789',
+            orders: [{ customerId: 'c-42' }],
+            session: { refresh: 'r-secret' },
+        }) as { email: string; card: string; orders: { customerId: string }[]; session: { refresh: string } };
+
+        expect(redacted.email).to.match(/^user_[a-z0-9]+@example\.com$/);
+        expect(redacted.card).to.eq('************1111');
+        expect(redacted).not.to.have.property('ssn');
+        expect(redacted.orders[0].customerId).to.match(/^hash_[a-z0-9]+$/);
+        expect(redacted.session.refresh).to.match(/^tok_[a-z0-9]+$/);
+        expect(getIssuedTokens()[redacted.session.refresh]).to.eq('r-secret');
+    });
+
+    it('should give equal inputs equal redacted values', () => {
+        const first = redactBody('https://api.example.com/a', { email: 'jane@corp.com' });
+        const second = redactBody('https://api.example.com/b', { email: 'jane@corp.com' });
+
+        expect(first).to.deep.eq(second);
+    });
+
+    it('should redact query params, request headers and form bodies', () => {
+        const redacted = redactRequest({
+            url: 'https://api.example.com/search?email=jane%40corp.com&page=2',
+            headers: { 'x-customer-id': 'c-42', accept: 'application/json' },
+            body: 'card=4111111111111111&ssn=123-45-6789&note=hi',
+        });
+
+        expect(redacted.url).not.to.contain('jane');
+        expect(redacted.url).to.contain('page=2');
+        expect(redacted.headers?.['x-customer-id']).to.match(/^hash_/);
+        expect(redacted.headers?.accept).to.eq('application/json');
+        expect(redacted.body).to.eq('card=************1111&note=hi');
+    });
+
+    it('should redact JSON string bodies', () => {
+        const redacted = redactRequest({
+            url: 'https://api.example.com/signup',
+            body: JSON.stringify({ email: 'jane@corp.com', plan: 'pro' }),
+        });
+
+        const body = JSON.parse(redacted.body as string);
+        expect(body.email).to.match(/@example\.com$/);
+        expect(body.plan).to.eq('pro');
+    });
+
+    it('should match a replayed request against its redacted recording', () => {
+        const url = 'https://api.example.com/search?email=jane%40corp.com';
+        const body = { email: 'jane@corp.com', query: 'shoes' };
+
+        // What record mode stores, and what replay looks up
+        const stored = redactRequest({ url, body });
+        const recorded = createRequestSignature('POST', stored.url, stored.body);
+        const replayed = createStoredSignature('POST', url, body);
+
+        expect(getSignatureKey(replayed)).to.eq(getSignatureKey(recorded));
+        expect(replayed.url).not.to.contain('jane');
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * Request Body Matching
+ * Checks that write requests are told apart by their body, whatever its key order
+ */
+
+import {
+    createRequestSignature,
+    generateMockFilename,
+    hashRequestBody,
+    matchRequest,
+} from '../support/matcher';
+import { RecordedMock } from '../support/mockStorage';
+
+const SEARCH_URL = 'https://api.example.com/api/search';
+
+/**
+ * A stored POST /api/search recording for a request body
+ */
+function recording(requestBody: unknown): RecordedMock {
+    return {
+        method: 'POST',
+        url: SEARCH_URL,
+        pathname: '/api/search',
+        queryParams: {},
+        status: 200,
+        requestBody,
+        response: [],
+        recordedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
+
+describe('Request Body Matching', () => {
+    const originalIgnored = Cypress.env('IGNORED_BODY_FIELDS');
+
+    afterEach(() => {
+        Cypress.env('IGNORED_BODY_FIELDS', originalIgnored);
+    });
+
+    it('should hash bodies independently of key order', () => {
+        const first = hashRequestBody({ query: 'shoes', filters: { size: 42, color: 'red' } });
+        const second = hashRequestBody({ filters: { color: 'red', size: 42 }, query: 'shoes' });
+
+        expect(first).to.eq(second);
+        expect(hashRequestBody(JSON.stringify({ filters: { size: 42, color: 'red' }, query: 'shoes' }))).to.eq(first);
+    });
+
+    it('should give different bodies different mock files', () => {
+        const shoes = createRequestSignature('POST', SEARCH_URL, { query: 'shoes' });
+        const hats = createRequestSignature('POST', SEARCH_URL, { query: 'hats' });
+
+        expect(generateMockFilename(shoes)).to.match(/^post_api_search_b[a-z0-9]+\.json$/);
+        expect(generateMockFilename(shoes)).not.to.eq(generateMockFilename(hats));
+    });
+
+    it('should only hash bodies of write methods', () => {
+        const read = createRequestSignature('GET', SEARCH_URL, { query: 'shoes' });
+        const empty = createRequestSignature('POST', SEARCH_URL);
+
+        expect(read.bodyHash).to.eq(undefined);
+        expect(empty.bodyHash).to.eq(undefined);
+        expect(generateMockFilename(empty)).to.eq('post_api_search.json');
+    });
+
+    it('should leave ignored fields out of the hash', () => {
+        Cypress.env('IGNORED_BODY_FIELDS', 'requestId,meta.sentAt');
+
+        const first = createRequestSignature('POST', SEARCH_URL, { query: 'shoes', requestId: 'a1', meta: { sentAt: 1, page: 1 } });
+        const second = createRequestSignature('POST', SEARCH_URL, { query: 'shoes', requestId: 'b2', meta: { sentAt: 2, page: 1 } });
+        const otherPage = createRequestSignature('POST', SEARCH_URL, { query: 'shoes', requestId: 'c3', meta: { sentAt: 3, page: 2 } });
+
+        expect(first.bodyHash).to.eq(second.bodyHash);
+        expect(first.bodyHash).not.to.eq(otherPage.bodyHash);
+    });
+
+    it('should pick the recording whose body matches', () => {
+        const request = createRequestSignature('POST', SEARCH_URL, { query: 'shoes', page: 1 });
+
+        expect(matchRequest(request, recording({ page: 1, query: 'shoes' })).tier).to.eq('exact');
+        expect(matchRequest(request, recording({ page: 1, query: 'hats' })).tier).to.eq('fuzzy');
+    });
+});
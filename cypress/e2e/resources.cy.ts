@@ -0,0 +1,121 @@
+/**
+ * Stateful Resources
+ * Checks that writes to a configured collection show up in later reads within a test
+ */
+
+import { defaultConfig } from '../config/mock.config';
+import { createRequestSignature, generateMockPath } from '../support/matcher';
+import { RecordedMock, RecordedResponse, resetSequences } from '../support/mockStorage';
+import { findResource, handleResourceRequest, resetResources } from '../support/resources';
+
+/** Scratch store holding the recorded collection */
+const MOCK_DIR = 'cypress/reports/resources';
+
+const POSTS_URL = 'https://api.example.com/api/posts';
+
+/** Recorded GET /api/posts, items wrapped in an envelope */
+const collection: RecordedMock = {
+    method: 'GET',
+    url: POSTS_URL,
+    pathname: '/api/posts',
+    queryParams: {},
+    status: 200,
+    responseHeaders: { 'content-type': 'application/json', 'content-length': '120' },
+    response: { data: [{ id: 1, title: 'First', userId: 1 }, { id: 2, title: 'Second', userId: 2 }], total: 2 },
+    recordedAt: '2024-01-01T00:00:00.000Z',
+};
+
+/**
+ * Send a request to the emulated collection (once the commands before it have run)
+ */
+function send(method: string, url: string, body?: unknown): Cypress.Chainable<RecordedResponse> {
+    return cy.then(() => {
+        const signature = createRequestSignature(method, url, body);
+        return handleResourceRequest(findResource(signature.pathname)!, signature, body);
+    });
+}
+
+describe('Stateful Resources', () => {
+    const originalDir = Cypress.env('MOCK_DIR');
+    const originalResources = defaultConfig.statefulResources;
+
+    beforeEach(() => {
+        resetSequences();
+        Cypress.env('MOCK_DIR', MOCK_DIR);
+        defaultConfig.statefulResources = [{ route: '/api/posts', itemsPath: '$.data' }, { route: '/users/:userId/orders' }];
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+        cy.task('writeMock', { filePath: generateMockPath(createRequestSignature('GET', POSTS_URL)), data: collection });
+    });
+
+    afterEach(() => {
+        resetResources();
+        Cypress.env('MOCK_DIR', originalDir);
+        defaultConfig.statefulResources = originalResources;
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+    });
+
+    it('should tell collection and item requests apart', () => {
+        expect(findResource('/api/posts')?.itemId).to.eq(undefined);
+        expect(findResource('/api/posts/2')?.itemId).to.eq('2');
+
+        const nested = findResource('/users/5/orders/abc');
+        expect(nested?.collectionPath).to.eq('/users/5/orders');
+        expect(nested?.itemId).to.eq('abc');
+
+        expect(findResource('/api/posts/2/comments')).to.eq(null);
+    });
+
+    it('should seed the collection from the recording and keep its envelope', () => {
+        send('GET', POSTS_URL).then((response) => {
+            expect(response.status).to.eq(200);
+            expect(response.response).to.deep.eq(collection.response);
+            expect(response.responseHeaders).to.deep.eq({ 'content-type': 'application/json' });
+        });
+        send('GET', `${POSTS_URL}?userId=2`).then((response) => {
+            expect((response.response as { data: unknown[] }).data).to.deep.eq([{ id: 2, title: 'Second', userId: 2 }]);
+        });
+    });
+
+    it('should reflect creates, updates and deletes in later reads', () => {
+        send('POST', POSTS_URL, { title: 'Third', userId: 1 }).then((response) => {
+            expect(response.status).to.eq(201);
+            expect(response.response).to.deep.eq({ title: 'Third', userId: 1, id: 3 });
+        });
+        send('PATCH', `${POSTS_URL}/1`, JSON.stringify({ title: 'Edited', id: 99 }));
+        send('PUT', `${POSTS_URL}/2`, { title: 'Replaced' });
+        send('DELETE', `${POSTS_URL}/3`).then((response) => {
+            expect(response.status).to.eq(200);
+        });
+
+        send('GET', POSTS_URL).then((response) => {
+            expect((response.response as { data: unknown[] }).data).to.deep.eq([
+                { id: 1, title: 'Edited', userId: 1 },
+                { title: 'Replaced', id: 2 },
+            ]);
+        });
+        send('GET', `${POSTS_URL}/3`).then((response) => {
+            expect(response.status).to.eq(404);
+        });
+    });
+
+    it('should start empty without a recording and reject unsupported methods', () => {
+        send('POST', 'https://api.example.com/users/5/orders', { sku: 'A1' }).then((response) => {
+            expect(response.response).to.deep.eq({ sku: 'A1', id: 1 });
+        });
+        send('GET', 'https://api.example.com/users/5/orders').then((response) => {
+            expect(response.response).to.deep.eq([{ sku: 'A1', id: 1 }]);
+        });
+        send('DELETE', 'https://api.example.com/users/5/orders').then((response) => {
+            expect(response.status).to.eq(405);
+        });
+    });
+
+    it('should forget writes between tests', () => {
+        send('GET', POSTS_URL).then((response) => {
+            expect((response.response as { data: unknown[] }).data).to.have.length(2);
+        });
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Route Templates
+ * Checks that one recording under a route template serves its whole family of paths
+ */
+
+import {
+    createRequestSignature,
+    createTemplatedSignature,
+    findRouteTemplates,
+    matchRouteTemplate,
+    registerRouteTemplates,
+} from '../support/matcher';
+import { findMock, RecordedMock, resetSequences, saveMock } from '../support/mockStorage';
+import { renderTemplates } from '../support/templating';
+
+/** Scratch store for the record/replay round trip */
+const MOCK_DIR = 'cypress/reports/route-templates';
+
+describe('Route Templates', () => {
+    const originalDir = Cypress.env('MOCK_DIR');
+    const originalTemplates = Cypress.env('ROUTE_TEMPLATES');
+
+    beforeEach(() => {
+        resetSequences();
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+    });
+
+    afterEach(() => {
+        Cypress.env('MOCK_DIR', originalDir);
+        Cypress.env('ROUTE_TEMPLATES', originalTemplates);
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+    });
+
+    it('should capture path params in either template form', () => {
+        expect(matchRouteTemplate('/posts/:id', '/posts/42')).to.deep.eq({ id: '42' });
+        expect(matchRouteTemplate('/users/{uuid}/orders', '/users/a%20b/orders')).to.deep.eq({ uuid: 'a b' });
+        expect(matchRouteTemplate('/posts/:id', '/posts/42/comments')).to.eq(null);
+        expect(matchRouteTemplate('/posts/:id', '/users/42')).to.eq(null);
+    });
+
+    it('should prefer the most specific template', () => {
+        const matches = findRouteTemplates('/users/me', ['/users/:id', '/users/me', '/:kind/:id']);
+
+        expect(matches.map(match => match.template)).to.deep.eq(['/users/me', '/users/:id', '/:kind/:id']);
+    });
+
+    it('should move a request onto a route template without touching the host', () => {
+        const request = createRequestSignature('GET', 'https://users.example.com/users/42?expand=orders');
+        const templated = createTemplatedSignature(request, '/users/{id}');
+
+        expect(templated.url).to.eq('https://users.example.com/users/:id?expand=orders');
+        expect(templated.pathname).to.eq('/users/:id');
+        expect(templated.queryParams).to.deep.eq({ expand: 'orders' });
+    });
+
+    it('should record once under the template and replay it for other ids', () => {
+        Cypress.env('MOCK_DIR', MOCK_DIR);
+        Cypress.env('ROUTE_TEMPLATES', '/posts/:id');
+        registerRouteTemplates(['/posts/:id']);
+
+        saveMock({ method: 'GET', url: 'https://api.example.com/posts/1' }, { statusCode: 200, body: { id: 1 } }).then((filePath) => {
+            cy.task('readMock', { filePath }).then((result) => {
+                expect((result as RecordedMock).pathname).to.eq('/posts/:id');
+            });
+
+            // Other members of the family recorded in the same test keep the first recording
+            saveMock({ method: 'GET', url: 'https://api.example.com/posts/2' }, { statusCode: 404, body: {} }).then((second) => {
+                expect(second).to.eq(filePath);
+            });
+        });
+
+        findMock(createRequestSignature('GET', 'https://api.example.com/posts/7')).then((lookup) => {
+            expect(lookup?.match.tier).to.eq('exact');
+            expect(lookup?.mock.status).to.eq(200);
+        });
+    });
+
+    it('should echo captured params into the response', () => {
+        const params = matchRouteTemplate('/posts/:id', '/posts/7') ?? undefined;
+        const body = renderTemplates({ id: '{{param(id)}}', title: 'Post {{param(id)}}' }, { queryParams: {}, params });
+
+        expect(body).to.deep.eq({ id: '7', title: 'Post 7' });
+    });
+});
@@ -0,0 +1,103 @@
+/**
+ * Response Sequences
+ * Checks the order repeat calls replay in and what happens once a sequence runs out
+ */
+
+import { createRequestSignature, generateMockPath } from '../support/matcher';
+import { findMock, getResponses, nextResponse, RecordedMock, resetSequences } from '../support/mockStorage';
+
+/** GET /todos recorded three times: empty, then one item still processing, then an error */
+const mock: RecordedMock = {
+    method: 'GET',
+    url: 'https://api.example.com/todos',
+    pathname: '/todos',
+    queryParams: {},
+    status: 200,
+    response: [],
+    recordedAt: '2024-01-01T00:00:00.000Z',
+    sequence: [
+        { status: 200, response: [], recordedAt: '2024-01-01T00:00:00.000Z' },
+        { status: 202, response: [{ id: 1 }], recordedAt: '2024-01-01T00:00:01.000Z' },
+        { status: 503, response: { error: 'busy' }, recordedAt: '2024-01-01T00:00:02.000Z' },
+    ],
+};
+
+const SOURCE = 'cypress/mocks/get_todos.json';
+
+/** Scratch store for the cache-buster case */
+const MOCK_DIR = 'cypress/reports/sequences';
+
+/**
+ * Statuses of the next n replayed responses (null once exhausted with 'fail')
+ */
+function replay(n: number): (number | null)[] {
+    return Array.from({ length: n }, () => nextResponse(SOURCE, mock)?.status ?? null);
+}
+
+describe('Response Sequences', () => {
+    const originalPolicy = Cypress.env('SEQUENCE_POLICY');
+    const originalDir = Cypress.env('MOCK_DIR');
+
+    beforeEach(() => {
+        resetSequences();
+    });
+
+    afterEach(() => {
+        Cypress.env('SEQUENCE_POLICY', originalPolicy);
+        Cypress.env('MOCK_DIR', originalDir);
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+    });
+
+    it('should replay responses in recorded order', () => {
+        expect(replay(3)).to.deep.eq([200, 202, 503]);
+    });
+
+    it('should repeat the last response once exhausted (default policy)', () => {
+        Cypress.env('SEQUENCE_POLICY', 'repeat-last');
+        expect(replay(5)).to.deep.eq([200, 202, 503, 503, 503]);
+    });
+
+    it('should loop when the policy says so', () => {
+        Cypress.env('SEQUENCE_POLICY', 'loop');
+        expect(replay(4)).to.deep.eq([200, 202, 503, 200]);
+    });
+
+    it('should fail once exhausted when the policy says so', () => {
+        Cypress.env('SEQUENCE_POLICY', 'fail');
+        expect(replay(4)).to.deep.eq([200, 202, 503, null]);
+    });
+
+    it('should start over after a reset', () => {
+        replay(2);
+        resetSequences();
+        expect(nextResponse(SOURCE, mock)?.response).to.deep.eq([]);
+    });
+
+    it('should treat a mock without a sequence as a single response', () => {
+        const single: RecordedMock = { ...mock, sequence: undefined };
+
+        expect(getResponses(single)).to.have.length(1);
+        expect(nextResponse(SOURCE, single)?.status).to.eq(200);
+        expect(nextResponse(SOURCE, single)?.status).to.eq(200);
+    });
+
+    it('should advance through the sequence when polls carry a cache-buster', () => {
+        Cypress.env('MOCK_DIR', MOCK_DIR);
+        cy.task('writeMock', { filePath: generateMockPath(createRequestSignature('GET', mock.url)), data: mock });
+
+        const statuses: (number | null)[] = [];
+        ['1', '2', '3'].forEach((stamp) => {
+            findMock(createRequestSignature('GET', `${mock.url}?_t=${stamp}`)).then((lookup) => {
+                expect(lookup?.match.tier).to.eq('volatile');
+                statuses.push(lookup ? nextResponse(lookup.source, lookup.mock)?.status ?? null : null);
+            });
+        });
+
+        cy.then(() => {
+            expect(statuses).to.deep.eq([200, 202, 503]);
+        });
+    });
+});
@@ -0,0 +1,194 @@
+/**
+ * Storage Round-Trips
+ * Writes mocks as blobs and cassettes (YAML and JSON) and reads them back unchanged
+ */
+
+import { createRequestSignature } from '../support/matcher';
+import { Cassette, findMock, getCassettePath, RecordedMock, saveMock } from '../support/mockStorage';
+
+/** Scratch store, kept out of the real mock tree */
+const STORE_DIR = 'cypress/reports/round-trip';
+const BLOB_DIR = `${STORE_DIR}/.blobs`;
+
+/**
+ * A recording with the given response body
+ */
+function recording(pathname: string, response: unknown): RecordedMock {
+    return {
+        method: 'GET',
+        url: `https://api.example.com${pathname}`,
+        pathname,
+        queryParams: {},
+        status: 200,
+        responseHeaders: { 'content-type': 'application/json' },
+        response,
+        recordedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
+
+/** Values YAML is known to mangle when quoting goes wrong */
+const trickyBody = {
+    id: '007',
+    version: '1.10',
+    enabled: 'yes',
+    empty: '',
+    nothing: null,
+    note: 'key: value # not a comment',
+    multiline: 'first line\nsecond line',
+    token: `tok_${'a'.repeat(200)}`,
+    nested: [{ amount: 12.5, tags: ['a', 'b'] }],
+};
+
+describe('Storage Round-Trips', () => {
+    const originalDir = Cypress.env('MOCK_DIR');
+    const originalStorage = Cypress.env('MOCK_STORAGE');
+    const originalFormat = Cypress.env('CASSETTE_FORMAT');
+
+    beforeEach(() => {
+        cy.task('clearMocks', { dirPath: STORE_DIR }, { log: false });
+    });
+
+    afterEach(() => {
+        Cypress.env('MOCK_DIR', originalDir);
+        Cypress.env('MOCK_STORAGE', originalStorage);
+        Cypress.env('CASSETTE_FORMAT', originalFormat);
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: STORE_DIR }, { log: false });
+    });
+
+    describe('Blob storage', () => {
+        it('should move response bodies into blobs and inflate them on read', () => {
+            const mock = recording('/posts', trickyBody);
+            const filePath = `${STORE_DIR}/posts/get_posts.json`;
+
+            cy.task('writeMock', { filePath, data: mock, blobDir: BLOB_DIR }, { log: false });
+
+            // The mock file keeps only a reference
+            cy.task('readMock', { filePath }, { log: false }).then((stored) => {
+                expect((stored as RecordedMock).response).to.have.property('$blob');
+            });
+
+            cy.task('readMock', { filePath, blobDir: BLOB_DIR }, { log: false }).then((stored) => {
+                expect(stored).to.deep.eq(mock);
+            });
+        });
+
+        it('should store a body shared by several mocks once', () => {
+            const body = { items: [1, 2, 3] };
+            const first = `${STORE_DIR}/a/get_a.json`;
+            const second = `${STORE_DIR}/b/get_b.json`;
+
+            cy.task('writeMock', { filePath: first, data: recording('/a', body), blobDir: BLOB_DIR }, { log: false });
+            cy.task('writeMock', { filePath: second, data: recording('/b', body), blobDir: BLOB_DIR }, { log: false });
+
+            cy.task('readMock', { filePath: first }, { log: false }).then((a) => {
+                cy.task('readMock', { filePath: second }, { log: false }).then((b) => {
+                    expect((a as RecordedMock).response).to.deep.eq((b as RecordedMock).response);
+                });
+            });
+        });
+
+        it('should keep every response of a sequence', () => {
+            const mock: RecordedMock = {
+                ...recording('/jobs/1', { state: 'queued' }),
+                sequence: [
+                    { status: 200, response: { state: 'queued' }, recordedAt: '2024-01-01T00:00:00.000Z' },
+                    { status: 200, response: { state: 'done' }, recordedAt: '2024-01-01T00:00:01.000Z' },
+                ],
+            };
+            const filePath = `${STORE_DIR}/jobs/get_jobs_1.json`;
+
+            cy.task('writeMock', { filePath, data: mock, blobDir: BLOB_DIR }, { log: false });
+            cy.task('readMock', { filePath, blobDir: BLOB_DIR }, { log: false }).then((stored) => {
+                expect(stored).to.deep.eq(mock);
+            });
+        });
+
+        it('should record and replay through the blob store when it is configured', () => {
+            Cypress.env('MOCK_DIR', STORE_DIR);
+            Cypress.env('MOCK_STORAGE', 'blobs');
+
+            const body = { users: [{ id: 1, name: 'Jane' }], page: 1 };
+
+            saveMock({ method: 'GET', url: 'https://api.example.com/users?page=1' }, { statusCode: 200, body }).then((filePath) => {
+                cy.task('readMock', { filePath }, { log: false }).then((stored) => {
+                    expect((stored as RecordedMock).response).to.have.property('$blob');
+                });
+            });
+
+            findMock(createRequestSignature('GET', 'https://api.example.com/users?page=1')).then((lookup) => {
+                expect(lookup?.match.tier).to.eq('exact');
+                expect(lookup?.mock.response).to.deep.eq(body);
+            });
+        });
+
+        it('should collect blobs no mock points at any more', () => {
+            const filePath = `${STORE_DIR}/posts/get_posts.json`;
+            const gc = (flags = '') => cy.exec(`node bin/mock-recorder.js gc --dir ${STORE_DIR} ${flags}`);
+
+            cy.task('writeMock', { filePath, data: recording('/posts', { v: 1 }), blobDir: BLOB_DIR }, { log: false });
+            cy.task('writeMock', { filePath, data: recording('/posts', { v: 2 }), blobDir: BLOB_DIR }, { log: false });
+
+            gc('--dry-run').its('stdout').should('contain', '1 unreferenced blobs would be removed');
+            gc().its('stdout').should('contain', '1 unreferenced blobs removed');
+            gc().its('stdout').should('contain', '0 unreferenced blobs removed');
+
+            cy.task('readMock', { filePath, blobDir: BLOB_DIR }, { log: false }).then((stored) => {
+                expect((stored as RecordedMock).response).to.deep.eq({ v: 2 });
+            });
+        });
+    });
+
+    describe('Cassettes', () => {
+        const cassette: Cassette = {
+            spec: 'cypress/e2e/storage.cy.ts',
+            interactions: [
+                recording('/posts', trickyBody),
+                { ...recording('/users', []), method: 'POST', requestBody: { name: 'Jane' }, status: 201 },
+            ],
+        };
+
+        ['yaml', 'json'].forEach((format) => {
+            it(`should read a ${format.toUpperCase()} cassette back unchanged`, () => {
+                const filePath = `${STORE_DIR}/__cassettes__/storage.${format}`;
+
+                cy.task('writeCassette', { filePath, data: cassette }, { log: false });
+                cy.task('readCassette', { filePath }, { log: false }).then((stored) => {
+                    expect(stored).to.deep.eq(cassette);
+                });
+            });
+        });
+
+        it('should read a missing cassette as null', () => {
+            cy.task('readCassette', { filePath: `${STORE_DIR}/__cassettes__/missing.yaml` }, { log: false }).then((stored) => {
+                expect(stored).to.eq(null);
+            });
+        });
+
+        it('should record into one cassette per spec, in order, and replay from it', () => {
+            Cypress.env('MOCK_DIR', STORE_DIR);
+            Cypress.env('MOCK_STORAGE', 'cassette');
+            Cypress.env('CASSETTE_FORMAT', 'json');
+
+            saveMock({ method: 'GET', url: 'https://api.example.com/posts' }, { statusCode: 200, body: [{ id: 1 }] });
+            saveMock({ method: 'POST', url: 'https://api.example.com/users', body: { name: 'Jane' } }, { statusCode: 201, body: { id: 2 } });
+
+            cy.then(() => {
+                const filePath = getCassettePath();
+                expect(filePath).to.match(/__cassettes__\/.+\.json$/);
+
+                cy.task('readCassette', { filePath }, { log: false }).then((stored) => {
+                    const interactions = (stored as Cassette).interactions;
+                    expect(interactions.map(mock => `${mock.method} ${mock.pathname}`)).to.deep.eq(['GET /posts', 'POST /users']);
+                });
+
+                findMock(createRequestSignature('POST', 'https://api.example.com/users', { name: 'Jane' })).then((lookup) => {
+                    expect(lookup?.source).to.eq(`${filePath}#1`);
+                    expect(lookup?.mock.response).to.deep.eq({ id: 2 });
+                });
+            });
+        });
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * Strict Replay
+ * Checks how strict mode is switched on and that it stays quiet when every request was served
+ */
+
+import { getConfig } from '../config/mock.config';
+import { assertNoUnmatchedRequests, getMode, getUnmatchedRequests } from '../support/networkRecorder';
+
+describe('Strict Replay', () => {
+    const originalMode = Cypress.env('MODE');
+    const originalStrict = Cypress.env('STRICT_REPLAY');
+
+    afterEach(() => {
+        Cypress.env('MODE', originalMode);
+        Cypress.env('STRICT_REPLAY', originalStrict);
+    });
+
+    it('should replay in strict mode', () => {
+        Cypress.env('MODE', 'strict');
+
+        expect(getMode()).to.eq('replay');
+        expect(getConfig().strictReplay).to.eq(true);
+    });
+
+    it('should turn on with STRICT_REPLAY alongside replay mode', () => {
+        Cypress.env('MODE', 'replay');
+        expect(getConfig().strictReplay).to.eq(false);
+
+        Cypress.env('STRICT_REPLAY', true);
+        expect(getMode()).to.eq('replay');
+        expect(getConfig().strictReplay).to.eq(true);
+    });
+
+    it('should pass a test in which every request was served', () => {
+        Cypress.env('MODE', 'strict');
+
+        expect(getUnmatchedRequests()).to.deep.eq([]);
+        expect(() => assertNoUnmatchedRequests()).not.to.throw();
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * Dynamic Templating
+ * Checks that volatile fields are stored as generator tokens and filled in at replay
+ */
+
+import { defaultConfig } from '../config/mock.config';
+import { isTemplateToken, parsePath, renderTemplates, resetTemplateCounters, templateResponse } from '../support/templating';
+
+const ORDERS_URL = 'https://api.example.com/api/orders';
+
+describe('Dynamic Templating', () => {
+    const originalFields = defaultConfig.dynamicFields;
+
+    beforeEach(() => {
+        resetTemplateCounters();
+        defaultConfig.dynamicFields = [
+            { path: '$.data[*].createdAt', generator: 'now()' },
+            { path: '$.requestId', generator: 'uuid()', route: '/api/orders' },
+            { header: 'X-Request-Id', generator: 'uuid()' },
+        ];
+    });
+
+    afterEach(() => {
+        defaultConfig.dynamicFields = originalFields;
+    });
+
+    it('should parse JSONPath-style selectors', () => {
+        expect(parsePath('$.data[*].createdAt')).to.deep.eq(['data', '*', 'createdAt']);
+        expect(parsePath("$.items[0]['created-at']")).to.deep.eq(['items', 0, 'created-at']);
+    });
+
+    it('should replace configured fields and headers with tokens at record time', () => {
+        const recorded = templateResponse(
+            ORDERS_URL,
+            { requestId: 'abc', data: [{ id: 1, createdAt: '2024-01-01' }, { id: 2, createdAt: '2024-01-02' }] },
+            { 'x-request-id': 'abc', 'content-type': 'application/json' }
+        );
+
+        expect(recorded.body).to.deep.eq({
+            requestId: '{{uuid()}}',
+            data: [{ id: 1, createdAt: '{{now()}}' }, { id: 2, createdAt: '{{now()}}' }],
+        });
+        expect(recorded.headers).to.deep.eq({ 'x-request-id': '{{uuid()}}', 'content-type': 'application/json' });
+    });
+
+    it('should only template fields whose route matches', () => {
+        const recorded = templateResponse('https://api.example.com/api/users', { requestId: 'abc' });
+
+        expect(recorded.body).to.deep.eq({ requestId: 'abc' });
+    });
+
+    it('should generate fresh values of the right type at replay', () => {
+        const rendered = renderTemplates({
+            id: '{{uuid()}}',
+            createdAt: '{{now()}}',
+            epoch: '{{now(epoch)}}',
+            first: '{{counter(orders)}}',
+            second: '{{counter(orders)}}',
+            label: 'Order #{{counter(labels)}}',
+        }, { queryParams: {} });
+
+        expect(rendered.id).to.match(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+        expect(new Date(rendered.createdAt).toString()).not.to.eq('Invalid Date');
+        expect(rendered.epoch).to.be.a('number');
+        expect([rendered.first, rendered.second]).to.deep.eq([1, 2]);
+        expect(rendered.label).to.eq('Order #1');
+    });
+
+    it('should echo params, query values and request body fields', () => {
+        const rendered = renderTemplates(
+            { id: '{{param(id)}}', page: '{{param(page)}}', owner: '{{param(owner.name)}}' },
+            { params: { id: '42' }, queryParams: { page: '2' }, requestBody: JSON.stringify({ owner: { name: 'Ada' } }) }
+        );
+
+        expect(rendered).to.deep.eq({ id: '42', page: '2', owner: 'Ada' });
+    });
+
+    it('should recognise whole-string tokens only', () => {
+        expect(isTemplateToken('{{uuid()}}')).to.eq(true);
+        expect(isTemplateToken('Order #{{counter()}}')).to.eq(false);
+        expect(isTemplateToken(42)).to.eq(false);
+    });
+});
@@ -0,0 +1,56 @@
+/**
+ * Unused Mocks
+ * Checks which mocks count as served and when a run is complete enough to prune
+ */
+
+/** Scratch mock store */
+const MOCK_DIR = 'cypress/reports/unused-mocks';
+
+/** Preview of the after-run report */
+interface UnusedPreview {
+    unused: string[];
+    skippedSpecs: string[];
+}
+
+describe('Unused Mocks', () => {
+    const mock = {
+        method: 'GET',
+        url: 'https://api.example.com/posts',
+        pathname: '/posts',
+        queryParams: {},
+        status: 200,
+        response: [],
+        recordedAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    beforeEach(() => {
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+        cy.task('writeMock', { filePath: `${MOCK_DIR}/posts/get_posts.json`, data: mock });
+        cy.task('writeMock', { filePath: `${MOCK_DIR}/users/get_users.json`, data: { ...mock, url: 'https://api.example.com/users', pathname: '/users' } });
+        cy.task('writeMock', { filePath: `${MOCK_DIR}/.gitkeep.json`, data: {} });
+    });
+
+    after(() => {
+        cy.task('clearMocks', { dirPath: MOCK_DIR });
+    });
+
+    it('should list the mocks nothing served, ignoring placeholders', () => {
+        cy.task('markMocksUsed', { files: [`${MOCK_DIR}/posts/get_posts.json`] });
+
+        cy.task('previewUnusedMocks', { dirPath: MOCK_DIR, ranSpecs: [] }).then((preview) => {
+            expect((preview as UnusedPreview).unused).to.deep.eq(['users/get_users.json']);
+        });
+    });
+
+    it('should only allow pruning once every spec has run', () => {
+        cy.task('previewUnusedMocks', { dirPath: MOCK_DIR, ranSpecs: [Cypress.spec.relative] }).then((preview) => {
+            const { skippedSpecs } = preview as UnusedPreview;
+            expect(skippedSpecs).to.include('cypress/e2e/sample.cy.ts');
+            expect(skippedSpecs).not.to.include(Cypress.spec.relative);
+
+            cy.task('previewUnusedMocks', { dirPath: MOCK_DIR, ranSpecs: [Cypress.spec.relative, ...skippedSpecs] }).then((full) => {
+                expect((full as UnusedPreview).skippedSpecs).to.deep.eq([]);
+            });
+        });
+    });
+});
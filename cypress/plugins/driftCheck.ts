@@ -0,0 +1,320 @@
+/**
+ * Schema Drift Check
+ * Replays stored requests against the real backend and diffs response shapes
+ */
+
+import * as path from 'path';
+import { BLOB_DIR, getResponses, RecordedMock } from '../support/mockStorage';
+import { isRedactedValue } from '../support/redaction';
+import { isTemplateToken } from '../support/templating';
+import { listCassetteFiles, listMockFiles, readCassetteInteractions, readMockFile } from './mockFiles';
+
+export interface ShapeChange {
+    /** JSON path of the change ([] stands for array elements) */
+    path: string;
+    change: 'added' | 'removed' | 'type' | 'status';
+    recorded?: string;
+    live?: string;
+    /** Position of the recorded response the change is against (sequences only) */
+    response?: number;
+}
+
+export interface DriftResult {
+    file: string;
+    method: string;
+    url: string;
+    version?: string;
+    changes: ShapeChange[];
+    error?: string;
+    /** Why the request was not sent to the backend */
+    skipped?: string;
+}
+
+export interface VerifyOptions {
+    /** Base URL for mocks recorded with relative URLs */
+    baseUrl?: string;
+
+    /** Extra request headers, e.g. credentials removed by the sanitizer */
+    headers?: Record<string, string>;
+
+    /** Also re-send POST/PUT/PATCH/DELETE requests (they may change data on the backend) */
+    includeUnsafe?: boolean;
+}
+
+/** Methods re-sent by default: they must not change data on the backend */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/** Headers that describe the original connection and must not be replayed */
+const skippedHeaders = ['host', 'content-length', 'connection', 'accept-encoding'];
+
+/**
+ * Send every stored request to the backend and report structural drift per mock (or cassette interaction)
+ * A file that can't be read is reported as an error entry instead of aborting the run; unsafe
+ * methods (unless opted in) and requests with redacted values are reported as skipped
+ */
+export async function verifyMocks(mockDir: string, options: VerifyOptions = {}): Promise<DriftResult[]> {
+    const results: DriftResult[] = [];
+    const blobDir = path.join(mockDir, BLOB_DIR);
+
+    const sources = [
+        ...listMockFiles(mockDir)
+            .filter(f => !path.basename(f).startsWith('.'))
+            .map(file => ({ file, read: () => [{ file, mock: readMockFile(path.resolve(mockDir, file), blobDir) }] })),
+        ...listCassetteFiles(mockDir)
+            .map(file => ({ file, read: () => readCassetteInteractions(mockDir, file) })),
+    ];
+
+    for (const source of sources) {
+        let entries: { file: string; mock: unknown }[];
+        try {
+            entries = source.read();
+        } catch (error) {
+            results.push({ file: source.file, method: '', url: '', changes: [], error: `unreadable: ${(error as Error).message}` });
+            continue;
+        }
+
+        for (const entry of entries) {
+            const mock = entry.mock as RecordedMock | null;
+            if (mock?.method && mock.url) {
+                results.push(await verifyMock(entry.file, mock, options));
+            }
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Compare two values by structure: keys, types and array element shapes
+ */
+export function diffShapes(recorded: unknown, live: unknown, valuePath = '$'): ShapeChange[] {
+    // Generator tokens ({{counter()}}, {{now(epoch)}}) and redacted values stand for values of any type
+    if (isTemplateToken(recorded) || isRedactedValue(recorded)) {
+        return [];
+    }
+
+    const recordedType = typeOf(recorded);
+    const liveType = typeOf(live);
+
+    if (recordedType !== liveType) {
+        // A null on either side says nothing about the contract
+        if (recordedType === 'null' || liveType === 'null') {
+            return [];
+        }
+        return [{ path: valuePath, change: 'type', recorded: recordedType, live: liveType }];
+    }
+
+    if (recordedType === 'array') {
+        const recordedItems = recorded as unknown[];
+        if (recordedItems.length === 0) {
+            return [];
+        }
+
+        // Every live element is checked, against the recorded one at its index (or the first)
+        const changes = (live as unknown[]).flatMap((item, i) =>
+            diffShapes(i < recordedItems.length ? recordedItems[i] : recordedItems[0], item, `${valuePath}[]`));
+        const seen = new Set<string>();
+        return changes.filter((change) => {
+            const key = `${change.path}|${change.change}|${change.recorded}|${change.live}`;
+            if (seen.has(key)) {
+                return false;
+            }
+            seen.add(key);
+            return true;
+        });
+    }
+
+    if (recordedType === 'object') {
+        const changes: ShapeChange[] = [];
+        const recordedObj = recorded as Record<string, unknown>;
+        const liveObj = live as Record<string, unknown>;
+
+        for (const key of Object.keys(recordedObj)) {
+            if (!(key in liveObj)) {
+                changes.push({ path: `${valuePath}.${key}`, change: 'removed', recorded: typeOf(recordedObj[key]) });
+            } else {
+                changes.push(...diffShapes(recordedObj[key], liveObj[key], `${valuePath}.${key}`));
+            }
+        }
+        for (const key of Object.keys(liveObj)) {
+            if (!(key in recordedObj)) {
+                changes.push({ path: `${valuePath}.${key}`, change: 'added', live: typeOf(liveObj[key]) });
+            }
+        }
+        return changes;
+    }
+
+    return [];
+}
+
+/**
+ * Replay one mock and diff its status and body shape
+ * Sequences are diffed against every recorded response with the live status
+ */
+async function verifyMock(file: string, mock: RecordedMock, options: VerifyOptions): Promise<DriftResult> {
+    const result: DriftResult = {
+        file,
+        method: mock.method,
+        url: mock.url,
+        version: mock.version,
+        changes: [],
+    };
+
+    result.skipped = getSkipReason(mock, options);
+    if (result.skipped) {
+        return result;
+    }
+
+    try {
+        const live = await sendStoredRequest(mock, options);
+        const responses = getResponses(mock);
+        const sameStatus = responses.filter(response => response.status === live.status);
+
+        if (sameStatus.length === 0) {
+            const recorded = [...new Set(responses.map(response => response.status))].join(', ');
+            result.changes.push({ path: '$', change: 'status', recorded, live: String(live.status) });
+            result.changes.push(...diffShapes(responses[0].response, live.body));
+        }
+        for (const response of sameStatus) {
+            const changes = diffShapes(response.response, live.body);
+            result.changes.push(...(responses.length > 1
+                ? changes.map(change => ({ ...change, response: responses.indexOf(response) }))
+                : changes));
+        }
+    } catch (error) {
+        result.error = (error as Error).message;
+    }
+
+    return result;
+}
+
+/**
+ * Why a stored request must not be re-sent (undefined when it may)
+ */
+function getSkipReason(mock: RecordedMock, options: VerifyOptions): string | undefined {
+    if (!options.includeUnsafe && !SAFE_METHODS.includes(mock.method.toUpperCase())) {
+        return `${mock.method} may change data on the backend`;
+    }
+
+    const query = mock.url.includes('?') ? [...new URLSearchParams(mock.url.split('?')[1].split('#')[0]).values()] : [];
+    if (query.some(isRedactedValue) || containsRedactedValue(parseBody(mock.requestBody))) {
+        return 'request holds redacted values, so the original request can\'t be re-sent';
+    }
+    return undefined;
+}
+
+/**
+ * Check a request body for values written by redaction rules
+ */
+function containsRedactedValue(value: unknown): boolean {
+    if (Array.isArray(value)) {
+        return value.some(containsRedactedValue);
+    }
+    if (value && typeof value === 'object') {
+        return Object.values(value).some(containsRedactedValue);
+    }
+    return isRedactedValue(value);
+}
+
+/**
+ * Parse JSON and form-encoded string bodies (other values are returned as is)
+ */
+function parseBody(body: unknown): unknown {
+    if (typeof body !== 'string') {
+        return body;
+    }
+    try {
+        return JSON.parse(body);
+    } catch {
+        return /^[^\s=&]+=[^\s]*$/.test(body) ? Object.fromEntries(new URLSearchParams(body)) : body;
+    }
+}
+
+/**
+ * Format drift results as a readable report
+ */
+export function formatDriftReport(results: DriftResult[]): string {
+    const checked = results.filter(r => !r.skipped);
+    const skipped = results.filter(r => r.skipped);
+    const drifted = checked.filter(r => r.changes.length > 0 || r.error);
+    const skippedLines = skipped.map(r => `  ${r.method} ${r.url} (${r.file})\n    ${r.skipped}`);
+    const skippedReport = skipped.length > 0
+        ? `\n⏭️ ${skipped.length} mocks were not re-sent:\n${skippedLines.join('\n')}`
+        : '';
+
+    if (drifted.length === 0) {
+        return `✅ ${checked.length} mocks match the live API${skippedReport}`;
+    }
+
+    const lines = drifted.map((r) => {
+        const request = r.method ? `${r.method} ${r.url} ` : '';
+        const header = `  ${request}(${r.file}${r.version ? `, v${r.version}` : ''})`;
+        if (r.error) {
+            return `${header}\n    error: ${r.error}`;
+        }
+        const details = r.changes.map((c) => {
+            const position = c.response !== undefined ? ` (response #${c.response + 1})` : '';
+            return `    ${c.change.padEnd(7)} ${c.path}${describeChange(c)}${position}`;
+        });
+        return [header, ...details].join('\n');
+    });
+
+    return `❌ ${drifted.length} of ${checked.length} mocks drifted from the live API:\n${lines.join('\n')}${skippedReport}`;
+}
+
+/**
+ * Replay the recorded request with fetch
+ */
+async function sendStoredRequest(
+    mock: { method: string; url: string; requestHeaders?: Record<string, string | string[]>; requestBody?: unknown },
+    options: VerifyOptions
+): Promise<{ status: number; body: unknown }> {
+    const url = mock.url.startsWith('http') ? mock.url : new URL(mock.url, options.baseUrl).toString();
+    const headers: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(mock.requestHeaders || {})) {
+        const text = Array.isArray(value) ? value.join(', ') : value;
+        if (!skippedHeaders.includes(name.toLowerCase()) && text !== '***REMOVED***') {
+            headers[name] = text;
+        }
+    }
+    Object.assign(headers, options.headers);
+
+    const hasBody = mock.requestBody !== undefined && !['GET', 'HEAD'].includes(mock.method);
+    const response = await fetch(url, {
+        method: mock.method,
+        headers,
+        body: hasBody
+            ? (typeof mock.requestBody === 'string' ? mock.requestBody : JSON.stringify(mock.requestBody))
+            : undefined,
+    });
+
+    const text = await response.text();
+    let body: unknown = text;
+    try {
+        body = JSON.parse(text);
+    } catch {
+        // Non-JSON bodies are compared as strings
+    }
+
+    return { status: response.status, body };
+}
+
+/**
+ * Structural type name
+ */
+function typeOf(value: unknown): string {
+    if (value === null || value === undefined) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/**
+ * Describe the before/after of a change
+ */
+function describeChange(change: ShapeChange): string {
+    if (change.recorded && change.live) return `: ${change.recorded} -> ${change.live}`;
+    if (change.recorded) return ` (${change.recorded})`;
+    if (change.live) return ` (${change.live})`;
+    return '';
+}
@@ -0,0 +1,416 @@
+/**
+ * Mock Admin
+ * Listing, inspection and bulk maintenance of the mock store (backs the mock-recorder CLI)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { matchRequest, matchRouteTemplate, normalizeRouteTemplate } from '../support/matcher';
+import { BLOB_DIR, RecordedMock, RecordedResponse } from '../support/mockStorage';
+import { createStoredSignature } from '../support/redaction';
+import { assertNoCassettes, listMockFiles, readCassetteEntries, readMockFile, sweepBlobs, writeMockFile } from './mockFiles';
+import { findStoredMock, registerRouteIndex, StoredMatch } from './mockServer';
+
+/** A mock file with its path relative to the mock dir ('<cassette>#<n>' for cassette interactions) */
+export interface MockEntry {
+    file: string;
+    mock: RecordedMock;
+}
+
+export interface MockStats {
+    total: number;
+    bytes: number;
+    byMethod: Record<string, number>;
+    byStatus: Record<string, number>;
+    byDirectory: Record<string, number>;
+    byVersion: Record<string, number>;
+    sequences: number;
+    sequenceResponses: number;
+    oldest?: string;
+    newest?: string;
+    largest?: { file: string; bytes: number };
+}
+
+/** Field order of a canonical mock file (unknown fields keep their order after these) */
+const MOCK_KEY_ORDER: (keyof RecordedMock)[] = [
+    'method', 'url', 'pathname', 'queryParams', 'status', 'statusMessage', 'requestHeaders', 'responseHeaders',
+    'requestBody', 'response', 'responseTime', 'recordedAt', 'version', 'metadata', 'sequence',
+];
+
+/** Field order of a canonical sequence entry */
+const RESPONSE_KEY_ORDER: (keyof RecordedResponse)[] = [
+    'status', 'statusMessage', 'responseHeaders', 'response', 'responseTime', 'recordedAt',
+];
+
+/**
+ * Read every mock in the store, then every cassette interaction
+ * (index files and other non-mock JSON are skipped)
+ */
+export function loadMockEntries(mockDir: string): MockEntry[] {
+    const files = listMockFiles(mockDir)
+        .map(file => file.split(path.sep).join('/'))
+        .sort()
+        .map((file) => {
+            try {
+                return { file, mock: readMockFile(path.join(mockDir, file)) as RecordedMock };
+            } catch (error) {
+                throw new Error(`Invalid JSON in ${path.join(mockDir, file)}: ${(error as Error).message}`);
+            }
+        });
+    const interactions = readCassetteEntries(mockDir)
+        .map(({ file, mock }) => ({ file: file.split(path.sep).join('/'), mock: mock as RecordedMock }));
+
+    return [...files, ...interactions].filter(entry => entry.mock?.method);
+}
+
+/**
+ * Table of method, path, status and recording time per mock
+ */
+export function formatMockTable(entries: MockEntry[]): string {
+    if (entries.length === 0) {
+        return 'No mocks found.';
+    }
+
+    const rows = entries.map(({ file, mock }) => [
+        mock.method,
+        `${mock.pathname}${formatQuery(mock.queryParams)}`,
+        String(mock.status) + (mock.sequence ? ` (x${mock.sequence.length})` : ''),
+        mock.recordedAt ? mock.recordedAt.replace('T', ' ').substring(0, 19) : '-',
+        file,
+    ]);
+    const header = ['METHOD', 'PATH', 'STATUS', 'RECORDED', 'FILE'];
+    const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+    const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+    return [line(header), ...rows.map(line), '', `${entries.length} mocks`].join('\n');
+}
+
+/**
+ * Find the mock a signature ('GET /posts/1?page=2', '/posts/1'), file path or cassette interaction ('__cassettes__/sample.yaml#2') refers to
+ * Signatures resolve to exact matches only, unless closest allows the replay match tiers
+ */
+export function findMockBySignature(mockDir: string, signature: string, closest = false): StoredMatch | null {
+    const asFile = path.isAbsolute(signature) ? signature : path.join(mockDir, signature);
+    if (signature.endsWith('.json') && fs.existsSync(asFile)) {
+        const mock = readMockFile(asFile, path.join(mockDir, BLOB_DIR)) as RecordedMock;
+        return { filePath: asFile, mock, match: { tier: 'exact', score: 1, reasons: [] } };
+    }
+
+    const interactions = readCassetteEntries(mockDir).map(({ file, mock }) => ({ file, mock: mock as RecordedMock }));
+    const byFile = interactions.find(({ file }) => file.split(path.sep).join('/') === signature);
+    if (byFile) {
+        return { filePath: path.join(mockDir, byFile.file), mock: byFile.mock, match: { tier: 'exact', score: 1, reasons: [] } };
+    }
+
+    const { method, route } = parseRouteSelector(signature);
+    const request = createStoredSignature(method ?? 'GET', route);
+    registerRouteIndex(mockDir);
+
+    const stored = findStoredMock(mockDir, request);
+    if (stored && (closest || stored.match.tier === 'exact')) {
+        return stored;
+    }
+
+    // Cassette interactions only answer exact requests
+    const interaction = interactions.find(({ mock }) => mock.pathname === request.pathname
+        && matchRequest(request, mock).tier === 'exact');
+    return interaction
+        ? { filePath: path.join(mockDir, interaction.file), mock: interaction.mock, match: { tier: 'exact', score: 1, reasons: [] } }
+        : null;
+}
+
+/**
+ * Select mocks by file glob ('posts/*.json', '**\/get_users*') or route ('DELETE /users/:id', '/users/{id}')
+ */
+export function selectMocks(entries: MockEntry[], selectors: string[]): MockEntry[] {
+    return entries.filter(entry => selectors.some((selector) => {
+        if (!isRouteSelector(selector)) {
+            return globToRegExp(selector).test(entry.file);
+        }
+
+        const { method, route } = parseRouteSelector(selector);
+        if (method && method !== entry.mock.method.toUpperCase()) {
+            return false;
+        }
+        const [pathname] = route.split('?');
+        return entry.mock.pathname === normalizeRouteTemplate(pathname)
+            || matchRouteTemplate(pathname, entry.mock.pathname) !== null;
+    }));
+}
+
+/**
+ * Delete the selected mocks, returning their files
+ */
+export function removeMocks(mockDir: string, selectors: string[], dryRun = false): string[] {
+    assertNoCassettes(mockDir, 'mock-recorder rm');
+    const selected = selectMocks(loadMockEntries(mockDir), selectors);
+    if (!dryRun) {
+        for (const { file } of selected) {
+            fs.rmSync(path.join(mockDir, file));
+        }
+        sweepBlobs(mockDir, path.join(mockDir, BLOB_DIR));
+    }
+    return selected.map(entry => entry.file);
+}
+
+/**
+ * Delete blobs no mock references any more (left behind by hand-deleted mocks)
+ */
+export function removeUnusedBlobs(mockDir: string, dryRun = false): string[] {
+    return sweepBlobs(mockDir, path.join(mockDir, BLOB_DIR), dryRun);
+}
+
+/**
+ * Point recorded URLs and host/origin/referer headers at another host
+ * ('api.old.com' swaps the host, 'https://api.old.com' the whole origin)
+ */
+export function renameHost(mockDir: string, from: string, to: string, dryRun = false): string[] {
+    assertNoCassettes(mockDir, 'mock-recorder rename-host');
+    const changed: string[] = [];
+
+    for (const { file, mock } of loadMockEntries(mockDir)) {
+        const before = JSON.stringify(mock);
+
+        mock.url = replaceOrigin(mock.url, from, to);
+        for (const [name, value] of Object.entries(mock.requestHeaders ?? {})) {
+            if (typeof value !== 'string') {
+                continue;
+            }
+            const header = name.toLowerCase();
+            if (header === 'host' && value === hostOf(from)) {
+                mock.requestHeaders![name] = hostOf(to);
+            } else if (header === 'origin' || header === 'referer') {
+                mock.requestHeaders![name] = replaceOrigin(value, from, to);
+            }
+        }
+
+        if (JSON.stringify(mock) !== before) {
+            changed.push(file);
+            if (!dryRun) {
+                writeMockFile(path.join(mockDir, file), mock);
+            }
+        }
+    }
+
+    return changed;
+}
+
+/**
+ * Rewrite mocks with canonical field order and sorted headers, returning the files that changed
+ */
+export function reformatMocks(mockDir: string, checkOnly = false): string[] {
+    assertNoCassettes(mockDir, 'mock-recorder reformat');
+    const changed: string[] = [];
+
+    for (const { file } of loadMockEntries(mockDir)) {
+        const filePath = path.join(mockDir, file);
+        const original = fs.readFileSync(filePath, 'utf-8');
+        const canonical = canonicalizeMock(JSON.parse(original));
+
+        if (JSON.stringify(canonical, null, 2) !== original) {
+            changed.push(file);
+            if (!checkOnly) {
+                writeMockFile(filePath, canonical);
+            }
+        }
+    }
+
+    return changed;
+}
+
+/**
+ * Order a mock's fields canonically (bodies are left as recorded)
+ */
+export function canonicalizeMock(mock: RecordedMock): RecordedMock {
+    const result = orderKeys(mock as unknown as Record<string, unknown>, MOCK_KEY_ORDER) as unknown as RecordedMock;
+
+    if (result.queryParams) {
+        result.queryParams = sortObject(result.queryParams);
+    }
+    if (result.requestHeaders) {
+        result.requestHeaders = sortObject(result.requestHeaders);
+    }
+    if (result.responseHeaders) {
+        result.responseHeaders = sortObject(result.responseHeaders);
+    }
+    if (result.sequence) {
+        result.sequence = result.sequence.map((entry) => {
+            const ordered = orderKeys(entry as unknown as Record<string, unknown>, RESPONSE_KEY_ORDER) as unknown as RecordedResponse;
+            return ordered.responseHeaders ? { ...ordered, responseHeaders: sortObject(ordered.responseHeaders) } : ordered;
+        });
+    }
+    return result;
+}
+
+/**
+ * Summarize the store
+ */
+export function getMockStats(mockDir: string): MockStats {
+    const stats: MockStats = {
+        total: 0,
+        bytes: 0,
+        byMethod: {},
+        byStatus: {},
+        byDirectory: {},
+        byVersion: {},
+        sequences: 0,
+        sequenceResponses: 0,
+    };
+    const count = (bucket: Record<string, number>, key: string) => {
+        bucket[key] = (bucket[key] ?? 0) + 1;
+    };
+
+    for (const { file, mock } of loadMockEntries(mockDir)) {
+        // A cassette interaction has no file of its own; count its JSON size
+        const bytes = file.includes('#')
+            ? Buffer.byteLength(JSON.stringify(mock))
+            : fs.statSync(path.join(mockDir, file)).size;
+
+        stats.total++;
+        stats.bytes += bytes;
+        count(stats.byMethod, mock.method.toUpperCase());
+        count(stats.byStatus, `${String(mock.status)[0]}xx`);
+        count(stats.byDirectory, file.includes('/') ? file.substring(0, file.indexOf('/')) : '.');
+        count(stats.byVersion, mock.version ?? 'unversioned');
+
+        if (mock.sequence) {
+            stats.sequences++;
+            stats.sequenceResponses += mock.sequence.length;
+        }
+        if (mock.recordedAt && (!stats.oldest || mock.recordedAt < stats.oldest)) {
+            stats.oldest = mock.recordedAt;
+        }
+        if (mock.recordedAt && (!stats.newest || mock.recordedAt > stats.newest)) {
+            stats.newest = mock.recordedAt;
+        }
+        if (!stats.largest || bytes > stats.largest.bytes) {
+            stats.largest = { file, bytes };
+        }
+    }
+
+    return stats;
+}
+
+/**
+ * Human-readable store summary
+ */
+export function formatMockStats(stats: MockStats, mockDir: string): string {
+    if (stats.total === 0) {
+        return `No mocks in ${mockDir}.`;
+    }
+
+    const buckets = (bucket: Record<string, number>) => Object.entries(bucket)
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([key, value]) => `${key} ${value}`)
+        .join(', ');
+
+    const lines = [
+        `${stats.total} mocks in ${mockDir} (${formatBytes(stats.bytes)})`,
+        `  Methods:     ${buckets(stats.byMethod)}`,
+        `  Statuses:    ${buckets(stats.byStatus)}`,
+        `  Directories: ${buckets(stats.byDirectory)}`,
+        `  Versions:    ${buckets(stats.byVersion)}`,
+        `  Sequences:   ${stats.sequences} mocks (${stats.sequenceResponses} responses)`,
+    ];
+    if (stats.oldest && stats.newest) {
+        lines.push(`  Recorded:    ${stats.oldest.substring(0, 10)} .. ${stats.newest.substring(0, 10)}`);
+    }
+    if (stats.largest) {
+        lines.push(`  Largest:     ${stats.largest.file} (${formatBytes(stats.largest.bytes)})`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Whether a selector names a route ('/users/:id', 'GET /users') rather than a file glob
+ */
+function isRouteSelector(selector: string): boolean {
+    return selector.startsWith('/') || /^[A-Za-z]+\s+\//.test(selector);
+}
+
+/**
+ * Split 'GET /users/1' into method and route
+ */
+function parseRouteSelector(selector: string): { method?: string; route: string } {
+    const match = selector.trim().match(/^([A-Za-z]+)\s+(\S+)$/);
+    return match ? { method: match[1].toUpperCase(), route: match[2] } : { route: selector.trim() };
+}
+
+/**
+ * Convert a file glob (*, **, ?) to a regex over relative paths
+ */
+function globToRegExp(glob: string): RegExp {
+    const pattern = glob
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*\*\//g, '\u0000')
+        .replace(/\*\*/g, '\u0001')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]')
+        .replace(/\u0000/g, '(?:.*/)?')
+        .replace(/\u0001/g, '.*');
+    return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Swap the origin of a URL when it matches (host-only or full-origin form)
+ */
+function replaceOrigin(value: string, from: string, to: string): string {
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        return value;
+    }
+
+    const matches = from.includes('://') ? url.origin === new URL(from).origin : url.host === from;
+    if (!matches || !value.toLowerCase().startsWith(url.origin.toLowerCase())) {
+        return value;
+    }
+
+    const origin = to.includes('://') ? new URL(to).origin : `${url.protocol}//${to}`;
+    return `${origin}${value.substring(url.origin.length)}`;
+}
+
+/**
+ * Host part of 'api.example.com' or 'https://api.example.com'
+ */
+function hostOf(hostOrOrigin: string): string {
+    return hostOrOrigin.includes('://') ? new URL(hostOrOrigin).host : hostOrOrigin;
+}
+
+/**
+ * Put known keys first in the given order, then the rest as they were
+ */
+function orderKeys(value: Record<string, unknown>, order: string[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const key of [...order.filter(k => k in value), ...Object.keys(value).filter(k => !order.includes(k))]) {
+        if (value[key] !== undefined) {
+            result[key] = value[key];
+        }
+    }
+    return result;
+}
+
+/**
+ * Copy an object with its keys sorted case-insensitively
+ */
+function sortObject<T>(value: Record<string, T>): Record<string, T> {
+    return Object.fromEntries(Object.entries(value ?? {}).sort(([a], [b]) => a.toLowerCase().localeCompare(b.toLowerCase())));
+}
+
+/**
+ * Query string suffix for the list table
+ */
+function formatQuery(params: Record<string, string> | undefined): string {
+    const query = new URLSearchParams(params ?? {}).toString();
+    return query ? `?${query}` : '';
+}
+
+/**
+ * Format a byte count
+ */
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
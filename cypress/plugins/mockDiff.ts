@@ -0,0 +1,321 @@
+/**
+ * Mock Diff
+ * Semantic comparison of two recording runs, paired by request signature
+ */
+
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { defaultConfig } from '../config/mock.config';
+import { createRequestSignature, createTemplatedSignature, getSignatureKey } from '../support/matcher';
+import { BLOB_DIR, CASSETTE_DIR, getResponses, RecordedMock, RecordedResponse } from '../support/mockStorage';
+import { assertNoCassettes, getBlobPath, inflateBodies, listMockFiles, readMockFile } from './mockFiles';
+
+export interface MockSource {
+    /** Mock directory (relative to the repo root when a ref is given) */
+    dir: string;
+
+    /** Git ref to read the directory from instead of the working tree */
+    ref?: string;
+}
+
+export interface ValueChange {
+    path: string;
+    change: 'added' | 'removed' | 'changed';
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface EndpointDiff {
+    key: string;
+    label: string;
+    status: 'added' | 'removed' | 'changed';
+    beforeFile?: string;
+    afterFile?: string;
+    changes: ValueChange[];
+}
+
+export interface MockDiffOptions {
+    volatileFields?: string[];
+    volatileHeaders?: string[];
+}
+
+/**
+ * Compare two mock sets and return the endpoints that differ
+ */
+export function diffMockSets(before: MockSource, after: MockSource, options: MockDiffOptions = {}): EndpointDiff[] {
+    const volatileFields = options.volatileFields ?? defaultConfig.volatileFields;
+    const volatileHeaders = (options.volatileHeaders ?? defaultConfig.volatileHeaders).map(h => h.toLowerCase());
+
+    const beforeSet = loadMockSet(before);
+    const afterSet = loadMockSet(after);
+    const keys = [...new Set([...beforeSet.keys(), ...afterSet.keys()])].sort();
+    const diffs: EndpointDiff[] = [];
+
+    for (const key of keys) {
+        const a = beforeSet.get(key);
+        const b = afterSet.get(key);
+        const entry = (a ?? b)!;
+        const label = `${entry.mock.method} ${entry.mock.pathname ?? entry.mock.url}`;
+
+        if (!a || !b) {
+            diffs.push({
+                key,
+                label,
+                status: a ? 'removed' : 'added',
+                beforeFile: a?.file,
+                afterFile: b?.file,
+                changes: [],
+            });
+            continue;
+        }
+
+        const changes = diffMocks(a.mock, b.mock, volatileFields, volatileHeaders);
+        if (changes.length > 0) {
+            diffs.push({ key, label, status: 'changed', beforeFile: a.file, afterFile: b.file, changes });
+        }
+    }
+
+    return diffs;
+}
+
+/**
+ * Format endpoint diffs for the terminal
+ */
+export function formatMockDiff(diffs: EndpointDiff[]): string {
+    if (diffs.length === 0) {
+        return '✅ No semantic differences between the mock sets';
+    }
+
+    const symbols = { added: '+', removed: '-', changed: '~' };
+    const lines: string[] = [];
+
+    for (const diff of diffs) {
+        const file = diff.afterFile ?? diff.beforeFile;
+        const moved = diff.beforeFile && diff.afterFile && diff.beforeFile !== diff.afterFile
+            ? `${diff.beforeFile} -> ${diff.afterFile}`
+            : file;
+        lines.push(`${symbols[diff.status]} ${diff.label} (${moved})`);
+
+        for (const change of diff.changes) {
+            const detail = change.change === 'changed'
+                ? `: ${preview(change.before)} -> ${preview(change.after)}`
+                : '';
+            lines.push(`    ${symbols[change.change]} ${change.path}${detail}`);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Load all mocks of a source keyed by namespace + request signature
+ */
+function loadMockSet(source: MockSource): Map<string, { file: string; mock: RecordedMock }> {
+    const result = new Map<string, { file: string; mock: RecordedMock }>();
+
+    for (const file of listSourceFiles(source)) {
+        let mock: RecordedMock;
+        try {
+            mock = readSourceMock(source, file) as RecordedMock;
+        } catch {
+            continue;
+        }
+        if (!mock.method || !mock.url) {
+            continue;
+        }
+
+        const recorded = createRequestSignature(mock.method, mock.url, mock.requestBody);
+
+        // Mocks stored under a route template keep their first concrete url; pair them by the template
+        const signature = mock.pathname && mock.pathname !== recorded.pathname
+            ? createTemplatedSignature(recorded, mock.pathname)
+            : recorded;
+        const namespace = file.match(/^(__specs__\/[^/]+(?:\/__tests__\/[^/]+)?)\//)?.[1] ?? '';
+        result.set(`${namespace}|${getSignatureKey(signature)}`, { file, mock });
+    }
+
+    return result;
+}
+
+/**
+ * List mock files of a source, relative to its directory
+ */
+function listSourceFiles(source: MockSource): string[] {
+    if (!source.ref) {
+        assertNoCassettes(source.dir, 'mocks:diff');
+        return listMockFiles(source.dir);
+    }
+
+    const output = execFileSync('git', ['ls-tree', '-r', '--name-only', source.ref, '--', source.dir], { encoding: 'utf-8' });
+    const prefix = `${source.dir.replace(/\/$/, '')}/`;
+    const files = output
+        .split('\n')
+        .filter(file => file.endsWith('.json') || /\.ya?ml$/.test(file))
+        .map(file => file.startsWith(prefix) ? file.substring(prefix.length) : file);
+
+    if (files.some(file => file.startsWith(`${CASSETTE_DIR}/`))) {
+        throw new Error(`mocks:diff does not support cassette storage, but ${source.ref}:${prefix}${CASSETTE_DIR} holds cassettes`);
+    }
+    return files.filter(file => file.endsWith('.json'));
+}
+
+/**
+ * Read one mock from the working tree or a git ref, with blob bodies inlined
+ */
+function readSourceMock(source: MockSource, file: string): unknown {
+    const blobDir = path.join(source.dir, BLOB_DIR);
+    if (!source.ref) {
+        return readMockFile(path.join(source.dir, file), blobDir);
+    }
+
+    const data = JSON.parse(gitShow(source.ref, path.join(source.dir, file)).toString('utf-8'));
+    return inflateBodies(data, (hash) => {
+        const blobPath = path.relative(process.cwd(), getBlobPath(blobDir, hash));
+        return JSON.parse(zlib.gunzipSync(gitShow(source.ref!, blobPath)).toString('utf-8'));
+    });
+}
+
+/**
+ * Contents of a file at a git ref (path relative to the repo root)
+ */
+function gitShow(ref: string, filePath: string): Buffer {
+    return execFileSync('git', ['show', `${ref}:${filePath.split(path.sep).join('/')}`], { maxBuffer: 256 * 1024 * 1024 });
+}
+
+/**
+ * Semantic changes between two recordings of the same request
+ */
+function diffMocks(
+    before: RecordedMock,
+    after: RecordedMock,
+    volatileFields: string[],
+    volatileHeaders: string[]
+): ValueChange[] {
+    const beforeResponses = getResponses(before);
+    const afterResponses = getResponses(after);
+    const changes: ValueChange[] = [];
+
+    if (beforeResponses.length !== afterResponses.length) {
+        changes.push({ path: 'sequence.length', change: 'changed', before: beforeResponses.length, after: afterResponses.length });
+    }
+
+    const count = Math.min(beforeResponses.length, afterResponses.length);
+    for (let i = 0; i < count; i++) {
+        const prefix = beforeResponses.length > 1 || afterResponses.length > 1 ? `sequence[${i}].` : '';
+        changes.push(...diffResponses(beforeResponses[i], afterResponses[i], prefix, volatileFields, volatileHeaders));
+    }
+
+    return changes;
+}
+
+/**
+ * Compare status, non-volatile headers and body of two responses
+ */
+function diffResponses(
+    before: RecordedResponse,
+    after: RecordedResponse,
+    prefix: string,
+    volatileFields: string[],
+    volatileHeaders: string[]
+): ValueChange[] {
+    const changes: ValueChange[] = [];
+
+    if (before.status !== after.status) {
+        changes.push({ path: `${prefix}status`, change: 'changed', before: before.status, after: after.status });
+    }
+
+    const beforeHeaders = normalizeHeaders(before.responseHeaders, volatileHeaders);
+    const afterHeaders = normalizeHeaders(after.responseHeaders, volatileHeaders);
+    changes.push(...diffValues(beforeHeaders, afterHeaders, `${prefix}headers`, '', []));
+    changes.push(...diffValues(before.response, after.response, `${prefix}body`, '', volatileFields));
+
+    return changes;
+}
+
+/**
+ * Deep diff of two JSON values, skipping volatile fields
+ */
+function diffValues(
+    before: unknown,
+    after: unknown,
+    valuePath: string,
+    fieldPath: string,
+    volatileFields: string[]
+): ValueChange[] {
+    if (isObject(before) && isObject(after)) {
+        const changes: ValueChange[] = [];
+        const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+        for (const key of keys) {
+            const childField = fieldPath ? `${fieldPath}.${key}` : key;
+            if (volatileFields.includes(key) || volatileFields.includes(childField)) {
+                continue;
+            }
+
+            const childPath = `${valuePath}.${key}`;
+            if (!(key in before)) {
+                changes.push({ path: childPath, change: 'added', after: after[key] });
+            } else if (!(key in after)) {
+                changes.push({ path: childPath, change: 'removed', before: before[key] });
+            } else {
+                changes.push(...diffValues(before[key], after[key], childPath, childField, volatileFields));
+            }
+        }
+        return changes;
+    }
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const changes: ValueChange[] = [];
+        const length = Math.max(before.length, after.length);
+
+        for (let i = 0; i < length; i++) {
+            const childPath = `${valuePath}[${i}]`;
+            if (i >= before.length) {
+                changes.push({ path: childPath, change: 'added', after: after[i] });
+            } else if (i >= after.length) {
+                changes.push({ path: childPath, change: 'removed', before: before[i] });
+            } else {
+                changes.push(...diffValues(before[i], after[i], childPath, fieldPath, volatileFields));
+            }
+        }
+        return changes;
+    }
+
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+        return [{ path: valuePath, change: 'changed', before, after }];
+    }
+    return [];
+}
+
+/**
+ * Lower-case header names and drop volatile ones, so order and case don't matter
+ */
+function normalizeHeaders(
+    headers: Record<string, string | string[]> = {},
+    volatileHeaders: string[]
+): Record<string, string | string[]> {
+    const result: Record<string, string | string[]> = {};
+    for (const [name, value] of Object.entries(headers)) {
+        const key = name.toLowerCase();
+        if (!volatileHeaders.includes(key)) {
+            result[key] = value;
+        }
+    }
+    return result;
+}
+
+/**
+ * Plain object check
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Short JSON preview of a value
+ */
+function preview(value: unknown): string {
+    const text = JSON.stringify(value) ?? 'undefined';
+    return text.length > 60 ? `${text.substring(0, 57)}...` : text;
+}
@@ -0,0 +1,351 @@
+/**
+ * Mock Files
+ * Node-side helpers for reading, writing and walking the mock store
+ * (shared by the Cypress tasks and the mock-recorder CLI)
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { CASSETTE_DIR } from '../support/mockStorage';
+
+/** Index-entry placeholder for a response body kept in the blob directory */
+interface BlobRef {
+    $blob: string;
+}
+
+/** Decompressed blobs by hash (content-addressed, so never stale) */
+const blobCache = new Map<string, string>();
+
+/**
+ * Read a mock file, or null when it doesn't exist
+ * Bodies stored as blobs are inflated when the blob directory is given
+ */
+export function readMockFile(filePath: string, blobDir?: string): unknown {
+    const fullPath = path.resolve(filePath);
+    if (fs.existsSync(fullPath)) {
+        const content = fs.readFileSync(fullPath, 'utf-8');
+        const data = JSON.parse(content);
+        return blobDir ? inflateBodies(data, hash => readBlob(blobDir, hash)) : data;
+    }
+    return null;
+}
+
+/**
+ * Write a mock file, creating its directory
+ * With a blob directory, response bodies go there and the file keeps only references
+ */
+export function writeMockFile(filePath: string, data: object, blobDir?: string): boolean {
+    const fullPath = path.resolve(filePath);
+    const dir = path.dirname(fullPath);
+
+    // Create directory if it doesn't exist
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const content = blobDir ? deflateBodies(data as Record<string, unknown>, blobDir) : data;
+    fs.writeFileSync(fullPath, JSON.stringify(content, null, 2), 'utf-8');
+    return true;
+}
+
+/**
+ * Read a cassette (YAML or JSON by extension), or null when it doesn't exist
+ */
+export function readCassetteFile(filePath: string): unknown {
+    const fullPath = path.resolve(filePath);
+    if (!fs.existsSync(fullPath)) {
+        return null;
+    }
+
+    const content = fs.readFileSync(fullPath, 'utf-8');
+    return isYamlFile(fullPath) ? parseYaml(content) : JSON.parse(content);
+}
+
+/**
+ * Write a cassette (YAML or JSON by extension), creating its directory
+ */
+export function writeCassetteFile(filePath: string, data: object): boolean {
+    const fullPath = path.resolve(filePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+
+    // lineWidth 0 keeps long strings (tokens, URLs) on one line
+    const content = isYamlFile(fullPath) ? stringifyYaml(data, { lineWidth: 0 }) : JSON.stringify(data, null, 2);
+    fs.writeFileSync(fullPath, content, 'utf-8');
+    return true;
+}
+
+/**
+ * List cassettes under a mock directory, relative to it
+ */
+export function listCassetteFiles(dirPath: string): string[] {
+    const cassetteDir = path.resolve(dirPath, CASSETTE_DIR);
+    if (!fs.existsSync(cassetteDir)) {
+        return [];
+    }
+
+    return (fs.readdirSync(cassetteDir, { recursive: true }) as string[])
+        .filter(item => /\.(ya?ml|json)$/i.test(item))
+        .map(item => path.join(CASSETTE_DIR, item))
+        .sort();
+}
+
+/**
+ * Read every cassette interaction under a mock directory, one entry each
+ * (file is '<cassette>#<n>', numbered from 1)
+ */
+export function readCassetteEntries(dirPath: string): { file: string; mock: unknown }[] {
+    return listCassetteFiles(dirPath).flatMap(file => readCassetteInteractions(dirPath, file));
+}
+
+/**
+ * Read one cassette (path relative to the mock directory) as one entry per interaction
+ */
+export function readCassetteInteractions(dirPath: string, file: string): { file: string; mock: unknown }[] {
+    const cassette = readCassetteFile(path.join(dirPath, file)) as { interactions?: unknown[] } | null;
+    return (cassette?.interactions ?? []).map((mock, index) => ({ file: `${file}#${index + 1}`, mock }));
+}
+
+/**
+ * Fail in tools that only handle per-endpoint files instead of silently skipping cassettes
+ */
+export function assertNoCassettes(dirPath: string, tool: string): void {
+    const cassettes = listCassetteFiles(dirPath);
+    if (cassettes.length > 0) {
+        throw new Error(
+            `${tool} does not support cassette storage, but ${path.join(dirPath, CASSETTE_DIR)} `
+            + `holds ${cassettes.length} cassette(s). Use it on a per-endpoint store (MOCK_STORAGE=files or blobs).`
+        );
+    }
+}
+
+/**
+ * Check for a .yaml/.yml path
+ */
+function isYamlFile(filePath: string): boolean {
+    return /\.ya?ml$/i.test(filePath);
+}
+
+/**
+ * Store a body under its SHA-256 (identical bodies share one gzip file)
+ */
+export function writeBlob(blobDir: string, body: unknown): BlobRef {
+    const json = JSON.stringify(body);
+    const hash = crypto.createHash('sha256').update(json).digest('hex');
+    const blobPath = getBlobPath(blobDir, hash);
+
+    if (!fs.existsSync(blobPath)) {
+        fs.mkdirSync(path.dirname(blobPath), { recursive: true });
+        fs.writeFileSync(blobPath, zlib.gzipSync(json));
+    }
+    blobCache.set(hash, json);
+    return { $blob: hash };
+}
+
+/**
+ * Read a body back from the blob directory
+ */
+export function readBlob(blobDir: string, hash: string): unknown {
+    let json = blobCache.get(hash);
+    if (json === undefined) {
+        const blobPath = getBlobPath(blobDir, hash);
+        if (!fs.existsSync(blobPath)) {
+            throw new Error(`Missing blob ${hash} in ${blobDir}`);
+        }
+        json = zlib.gunzipSync(fs.readFileSync(blobPath)).toString('utf-8');
+        blobCache.set(hash, json);
+    }
+    return JSON.parse(json);
+}
+
+/**
+ * Delete blobs no mock under the directory references any more
+ * Returns the removed hashes (only listed on a dry run)
+ */
+export function sweepBlobs(mockDir: string, blobDir: string, dryRun = false): string[] {
+    const fullBlobDir = path.resolve(blobDir);
+    if (!fs.existsSync(fullBlobDir)) {
+        return [];
+    }
+
+    const referenced = new Set<string>();
+    for (const file of listMockFiles(mockDir)) {
+        try {
+            const data = readMockFile(path.join(mockDir, file)) as Record<string, unknown>;
+            collectBlobRefs(data, referenced);
+        } catch {
+            // An unreadable file can't be checked, so keep every blob
+            return [];
+        }
+    }
+
+    const removed: string[] = [];
+    for (const shard of fs.readdirSync(fullBlobDir)) {
+        const shardDir = path.join(fullBlobDir, shard);
+        if (!fs.statSync(shardDir).isDirectory()) {
+            continue;
+        }
+        for (const item of fs.readdirSync(shardDir)) {
+            const hash = item.replace(/\.json\.gz$/, '');
+            if (hash !== item && !referenced.has(hash)) {
+                if (!dryRun) {
+                    fs.rmSync(path.join(shardDir, item), { force: true });
+                    blobCache.delete(hash);
+                }
+                removed.push(hash);
+            }
+        }
+        if (!dryRun && fs.readdirSync(shardDir).length === 0) {
+            fs.rmdirSync(shardDir);
+        }
+    }
+
+    return removed;
+}
+
+/**
+ * Blob file for a hash, fanned out by its first two characters
+ */
+export function getBlobPath(blobDir: string, hash: string): string {
+    return path.resolve(blobDir, hash.substring(0, 2), `${hash}.json.gz`);
+}
+
+/**
+ * Check for a blob reference
+ */
+function isBlobRef(value: unknown): value is BlobRef {
+    return value !== null && typeof value === 'object' && typeof (value as BlobRef).$blob === 'string'
+        && Object.keys(value).length === 1;
+}
+
+/**
+ * Move a mock's response bodies (including sequence entries) into blobs
+ * Request bodies stay inline since they are part of the request signature
+ */
+function deflateBodies(mock: Record<string, unknown>, blobDir: string): Record<string, unknown> {
+    const toBlob = (body: unknown) => body === undefined || body === null || isBlobRef(body) ? body : writeBlob(blobDir, body);
+    const result: Record<string, unknown> = { ...mock, response: toBlob(mock.response) };
+
+    if (Array.isArray(mock.sequence)) {
+        result.sequence = mock.sequence.map(entry => ({ ...entry, response: toBlob(entry.response) }));
+    }
+    return result;
+}
+
+/**
+ * Add the hashes a mock's response bodies point at
+ */
+function collectBlobRefs(mock: Record<string, unknown> | null, hashes: Set<string>): void {
+    const bodies = [mock?.response, ...(Array.isArray(mock?.sequence) ? mock.sequence.map(entry => entry?.response) : [])];
+    for (const body of bodies) {
+        if (isBlobRef(body)) {
+            hashes.add(body.$blob);
+        }
+    }
+}
+
+/**
+ * Replace blob references in a mock with the stored bodies
+ * (readBody loads a blob by hash, from the working tree or elsewhere)
+ */
+export function inflateBodies(data: unknown, readBody: (hash: string) => unknown): unknown {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return data;
+    }
+
+    const mock = data as Record<string, unknown>;
+    const fromBlob = (body: unknown) => isBlobRef(body) ? readBody(body.$blob) : body;
+    const result: Record<string, unknown> = { ...mock };
+
+    if ('response' in mock) {
+        result.response = fromBlob(mock.response);
+    }
+    if (Array.isArray(mock.sequence)) {
+        result.sequence = mock.sequence.map(entry => ({ ...entry, response: fromBlob(entry.response) }));
+    }
+    return result;
+}
+
+/**
+ * Check if a mock file exists
+ */
+export function mockFileExists(filePath: string): boolean {
+    return fs.existsSync(path.resolve(filePath));
+}
+
+/**
+ * Delete every mock under a directory, leaving it empty
+ */
+export function clearMockDir(dirPath: string): boolean {
+    const fullPath = path.resolve(dirPath);
+    if (fs.existsSync(fullPath)) {
+        fs.rmSync(fullPath, { recursive: true, force: true });
+    }
+    fs.mkdirSync(fullPath, { recursive: true });
+    return true;
+}
+
+/**
+ * List mock files under a directory, relative to it
+ * Cassettes are left out; they are read with readCassetteEntries
+ */
+export function listMockFiles(dirPath: string): string[] {
+    const fullPath = path.resolve(dirPath);
+    if (!fs.existsSync(fullPath)) {
+        return [];
+    }
+
+    const files: string[] = [];
+    const walkDir = (dir: string) => {
+        const items = fs.readdirSync(dir);
+        for (const item of items) {
+            const itemPath = path.join(dir, item);
+            const stat = fs.statSync(itemPath);
+            if (stat.isDirectory()) {
+                if (dir !== fullPath || item !== CASSETTE_DIR) {
+                    walkDir(itemPath);
+                }
+            } else if (item.endsWith('.json')) {
+                files.push(path.relative(fullPath, itemPath));
+            }
+        }
+    };
+
+    walkDir(fullPath);
+    return files;
+}
+
+/**
+ * Read the mocks in each directory whose filename starts with one of the prefixes
+ * Used by replay to score near-miss candidates for a request
+ */
+export function readMockFamily(
+    dirPaths: string[],
+    prefixes: string[],
+    blobDir?: string
+): { filePath: string; mock: unknown }[] {
+    const family: { filePath: string; mock: unknown }[] = [];
+
+    for (const dirPath of dirPaths) {
+        const fullPath = path.resolve(dirPath);
+        if (!fs.existsSync(fullPath)) {
+            continue;
+        }
+
+        for (const item of fs.readdirSync(fullPath).sort()) {
+            if (!item.endsWith('.json') || !prefixes.some(prefix => item.startsWith(prefix))) {
+                continue;
+            }
+            try {
+                const mock = readMockFile(path.join(fullPath, item), blobDir);
+                family.push({ filePath: `${dirPath}/${item}`, mock });
+            } catch {
+                // Not a mock (or mid-write); leave it to the exact lookup
+            }
+        }
+    }
+
+    return family;
+}
@@ -0,0 +1,458 @@
+/**
+ * Mock Server
+ * Standalone HTTP server that replays the mock store outside Cypress
+ */
+
+import * as http from 'http';
+import * as path from 'path';
+import { getConfig, StorageFormat } from '../config/mock.config';
+import {
+    createTemplatedSignature,
+    extractQueryParams,
+    findRouteTemplates,
+    generateMockRelativePath,
+    getFallbackSignatures,
+    getGenericSignatures,
+    getMockFamily,
+    isGeneratedMock,
+    matchRequest,
+    matchRouteTemplate,
+    MatchResult,
+    rankCandidates,
+    registerGeneratedRoutes,
+    registerRouteTemplates,
+    RequestSignature,
+    shouldRecordUrl
+} from '../support/matcher';
+import {
+    getResponses,
+    log,
+    nextResponse,
+    RecordedMock,
+    RecordedResponse,
+    resetSequences,
+    BLOB_DIR,
+    ROUTE_INDEX_FILE
+} from '../support/mockStorage';
+import { createStoredSignature, getIssuedTokens, redactBody, redactRequest } from '../support/redaction';
+import { sanitizeHeaders } from '../support/sanitizer';
+import { renderTemplates, templateResponse } from '../support/templating';
+import { assertNoCassettes, readMockFamily, readMockFile, writeMockFile } from './mockFiles';
+import { saveRedactionTokens } from './piiScan';
+
+export interface MockServerOptions {
+    /** Mock store to serve */
+    dir: string;
+
+    port: number;
+
+    /** Upstream API that misses are proxied to */
+    proxy?: string;
+
+    /** Record proxied misses into the store (default true) */
+    record?: boolean;
+
+    /** Where reversible redaction tokens of new recordings go */
+    tokensFile?: string;
+
+    /** Storage backend for new recordings (default: the mock config's) */
+    storageFormat?: StorageFormat;
+
+    /** Called with each mock file served or recorded (e.g. for the unused-mock report) */
+    onServed?: (filePath: string) => void;
+}
+
+/** A stored mock chosen for a request */
+export interface StoredMatch {
+    filePath: string;
+    mock: RecordedMock;
+    match: MatchResult;
+}
+
+/** A response fetched from the upstream API */
+export interface UpstreamResponse {
+    statusCode: number;
+    statusMessage?: string;
+    headers: Record<string, string>;
+    body: unknown;
+    responseTime: number;
+}
+
+export interface RecordOptions {
+    /** Where reversible redaction tokens of new recordings go */
+    tokensFile?: string;
+
+    /** Storage backend for new recordings (default: the mock config's) */
+    storageFormat?: StorageFormat;
+
+    /** Mocks written in this session, so repeat calls become a sequence */
+    session?: Map<string, RecordedMock>;
+}
+
+/** Path that resets replay sequences, e.g. between manual test runs */
+export const RESET_PATH = '/__mock-recorder/reset';
+
+/** Namespaces replay searches, most specific first ('' is the global tree) */
+let scopeNamespaces: string[] = [''];
+
+/** Headers that describe the original transfer, not the replayed body */
+const TRANSFER_HEADERS = ['content-length', 'content-encoding', 'transfer-encoding', 'connection', 'keep-alive'];
+
+/**
+ * Create the mock server (call listen() to start it)
+ */
+export function createMockServer(options: MockServerOptions): http.Server {
+    assertFileStorage(options.dir, options.storageFormat);
+    registerRouteIndex(options.dir);
+
+    return http.createServer((req, res) => {
+        handleRequest(options, req, res).catch((error: Error) => {
+            log('error', `❌ ${req.method} ${req.url}: ${error.message}`);
+            sendJson(req, res, 502, { error: 'Mock server error', message: error.message });
+        });
+    });
+}
+
+/**
+ * Start the mock server and resolve once it is listening
+ */
+export function startMockServer(options: MockServerOptions): Promise<http.Server> {
+    return new Promise((resolve, reject) => {
+        // Thrown inside the executor, so a rejected store (e.g. cassettes) rejects the promise
+        const server = createMockServer(options);
+        server.once('error', reject);
+        server.listen(options.port, () => {
+            const fallback = options.proxy
+                ? `, misses ${options.record === false ? 'proxied' : 'proxied and recorded'} from ${options.proxy}`
+                : '';
+            log('info', `🟢 Serving ${options.dir} on http://localhost:${options.port}${fallback}`);
+            resolve(server);
+        });
+    });
+}
+
+/**
+ * The server and recording proxy read and write per-endpoint files only
+ */
+export function assertFileStorage(dir: string, storageFormat?: StorageFormat): void {
+    if ((storageFormat ?? getConfig().storageFormat) === 'cassette') {
+        throw new Error('The mock server records per-endpoint files: use storage "files" or "blobs" instead of "cassette"');
+    }
+    assertNoCassettes(dir, 'The mock server');
+}
+
+/**
+ * Register the route templates recorded in a store and the configured ones
+ */
+export function registerRouteIndex(dir: string): void {
+    const routeIndex = readMockFile(path.join(dir, ROUTE_INDEX_FILE)) as { templates?: string[] } | null;
+    registerGeneratedRoutes(routeIndex?.templates ?? []);
+    registerRouteTemplates(getConfig().routeTemplates);
+}
+
+/**
+ * Set the namespaces replay searches (the spec/test scope of the running test)
+ */
+export function setScopeNamespaces(namespaces: string[]): void {
+    scopeNamespaces = namespaces.length > 0 ? namespaces : [''];
+}
+
+/**
+ * Find the stored mock for a request: the exact file and route-template fallbacks,
+ * then the closest recording within the configured match tiers, then generated
+ * generic mocks; each in the given namespaces, most specific first
+ */
+export function findStoredMock(dir: string, signature: RequestSignature, namespaces: string[] = ['']): StoredMatch | null {
+    const blobDir = path.join(dir, BLOB_DIR);
+    const readExact = (candidate: RequestSignature): StoredMatch | null => {
+        for (const namespace of namespaces) {
+            const filePath = path.join(dir, namespace, generateMockRelativePath(candidate));
+            const mock = readMockFile(filePath, blobDir) as RecordedMock | null;
+            const match = mock ? matchRequest(candidate, mock) : null;
+            if (mock && match?.tier === 'exact') {
+                return { filePath, mock, match };
+            }
+        }
+        return null;
+    };
+
+    for (const candidate of [signature, ...getFallbackSignatures(signature)]) {
+        const found = readExact(candidate);
+        if (found) {
+            return found;
+        }
+    }
+
+    if (signature.graphql) {
+        return null;
+    }
+
+    const family = getMockFamily(signature);
+    const dirPaths = namespaces.flatMap(namespace => family.dirs.map(relativeDir => path.join(dir, namespace, relativeDir)));
+    const candidates = readMockFamily(dirPaths, family.prefixes, blobDir);
+    const [closest] = rankCandidates(signature, candidates as { filePath: string; mock: RecordedMock }[]);
+    if (closest) {
+        return closest;
+    }
+
+    // Recordings of the bare path only answer requests without query or body
+    for (const candidate of getGenericSignatures(signature)) {
+        const found = readExact(candidate);
+        if (found && isGeneratedMock(found.mock)) {
+            return found;
+        }
+    }
+    return null;
+}
+
+/**
+ * Store an exchange with the upstream API the way saveMock does: both sides redacted,
+ * dynamic fields templated, covered paths stored once under their route template,
+ * in the active scope's namespace
+ */
+export function recordExchange(
+    dir: string,
+    request: { method: string; url: string; headers: Record<string, string | string[]>; body?: unknown },
+    response: UpstreamResponse,
+    options: RecordOptions = {}
+): string {
+    const exactSignature = createStoredSignature(request.method, request.url, request.body);
+    const [route] = findRouteTemplates(exactSignature.pathname, getConfig().routeTemplates);
+    const signature = route ? createTemplatedSignature(exactSignature, route.template) : exactSignature;
+    const filePath = path.join(dir, scopeNamespaces[0], generateMockRelativePath(signature));
+    const storedRequest = redactRequest({ ...request, headers: sanitizeHeaders(request.headers) });
+
+    // Another member of the route family was already recorded this session; keep the first
+    const existing = options.session?.get(filePath);
+    if (route && existing && existing.url !== storedRequest.url) {
+        log('debug', `⏭️ ${request.method} ${exactSignature.pathname} already covered by ${route.template}`);
+        return filePath;
+    }
+
+    const templated = templateResponse(request.url, redactBody(request.url, response.body), response.headers);
+    const entry: RecordedResponse = {
+        status: response.statusCode,
+        statusMessage: response.statusMessage,
+        responseHeaders: templated.headers ? sanitizeHeaders(templated.headers) : undefined,
+        response: templated.body,
+        responseTime: response.responseTime,
+        recordedAt: new Date().toISOString(),
+    };
+
+    // Repeat calls within one session extend the sequence instead of overwriting
+    const mock: RecordedMock = existing ? { ...existing, sequence: [...getResponses(existing), entry] } : {
+        method: signature.method,
+        url: storedRequest.url,
+        pathname: signature.pathname,
+        queryParams: signature.queryParams,
+        status: response.statusCode,
+        statusMessage: response.statusMessage,
+        requestHeaders: storedRequest.headers,
+        responseHeaders: entry.responseHeaders,
+        requestBody: storedRequest.body,
+        response: entry.response,
+        responseTime: entry.responseTime,
+        recordedAt: entry.recordedAt,
+        version: getConfig().mockVersion,
+    };
+    options.session?.set(filePath, mock);
+
+    const storageFormat = options.storageFormat ?? getConfig().storageFormat;
+    writeMockFile(filePath, mock, storageFormat === 'blobs' ? path.join(dir, BLOB_DIR) : undefined);
+
+    // Keep reversible redaction tokens outside the store
+    const tokens = getIssuedTokens();
+    if (Object.keys(tokens).length > 0) {
+        saveRedactionTokens(tokens, options.tokensFile ?? 'cypress/reports/redaction-tokens.json');
+    }
+
+    const position = mock.sequence ? ` (#${mock.sequence.length})` : '';
+    log('info', `📝 Recorded mock${position}: ${signature.method} ${signature.pathname} -> ${filePath}`);
+    return filePath;
+}
+
+/**
+ * Send a request to the upstream API
+ */
+export async function forwardRequest(
+    target: string,
+    req: http.IncomingMessage,
+    rawBody: Buffer
+): Promise<UpstreamResponse> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+        if (value !== undefined && name !== 'host' && !TRANSFER_HEADERS.includes(name)) {
+            headers[name] = Array.isArray(value) ? value.join(', ') : value;
+        }
+    }
+
+    const startTime = Date.now();
+    const response = await fetch(`${target.replace(/\/$/, '')}${req.url}`, {
+        method: req.method,
+        headers,
+        body: rawBody.length > 0 && req.method !== 'GET' && req.method !== 'HEAD' ? new Uint8Array(rawBody) : undefined,
+        redirect: 'manual',
+    });
+    const text = await response.text();
+
+    // fetch already decoded the body, so the transfer headers no longer apply
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+        if (!TRANSFER_HEADERS.includes(name)) {
+            responseHeaders[name] = value;
+        }
+    });
+
+    return {
+        statusCode: response.status,
+        statusMessage: response.statusText,
+        headers: responseHeaders,
+        body: parseBody(text, response.headers.get('content-type')),
+        responseTime: Date.now() - startTime,
+    };
+}
+
+/**
+ * Serve one request from the store, the upstream API or a 404
+ */
+async function handleRequest(options: MockServerOptions, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = (req.method ?? 'GET').toUpperCase();
+    const rawBody = await readRequestBody(req);
+    const body = parseBody(rawBody.toString('utf-8'), req.headers['content-type']);
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`).toString();
+
+    if (method === 'POST' && req.url === RESET_PATH) {
+        resetSequences();
+        log('info', '🔄 Replay sequences reset');
+        res.writeHead(204).end();
+        return;
+    }
+
+    const signature = createStoredSignature(method, url, body);
+    const stored = findStoredMock(options.dir, signature, scopeNamespaces);
+
+    if (stored) {
+        const response = nextResponse(stored.filePath, stored.mock);
+        if (!response) {
+            log('error', `❌ Mock sequence exhausted: ${method} ${signature.pathname}`);
+            sendJson(req, res, 500, { error: 'Mock sequence exhausted', mock: stored.filePath });
+            return;
+        }
+
+        const context = {
+            queryParams: extractQueryParams(url),
+            requestBody: body,
+            params: matchRouteTemplate(stored.mock.pathname, signature.pathname) ?? undefined,
+        };
+        const tier = stored.match.tier === 'exact' ? '' : ` (${stored.match.tier}: ${stored.match.reasons.join('; ')})`;
+        log('info', `✅ ${response.status} ${method} ${signature.pathname} <- ${stored.filePath}${tier}`);
+        options.onServed?.(stored.filePath);
+
+        send(req, res, response.status, renderTemplates(response.responseHeaders, context), renderTemplates(response.response, context));
+        return;
+    }
+
+    if (options.proxy) {
+        const upstream = await forwardRequest(options.proxy, req, rawBody);
+        log('warn', `⚠️ ${upstream.statusCode} ${method} ${signature.pathname} <- ${options.proxy} (no mock)`);
+
+        if (options.record !== false && shouldRecordUrl(url)) {
+            const request = { method, url, headers: req.headers as Record<string, string | string[]>, body };
+            const filePath = recordExchange(options.dir, request, upstream, {
+                tokensFile: options.tokensFile,
+                storageFormat: options.storageFormat,
+            });
+            options.onServed?.(filePath);
+        }
+        send(req, res, upstream.statusCode, upstream.headers, upstream.body);
+        return;
+    }
+
+    // Browsers preflight cross-origin calls; answer them even without a recording
+    if (method === 'OPTIONS') {
+        send(req, res, 204, {
+            'access-control-allow-methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+            'access-control-allow-headers': String(req.headers['access-control-request-headers'] ?? '*'),
+        }, undefined);
+        return;
+    }
+
+    log('warn', `❌ No mock: ${method} ${signature.pathname}`);
+    sendJson(req, res, 404, {
+        error: 'Mock not found',
+        message: `No mock available for ${method} ${req.url}`,
+        expectedMock: path.join(options.dir, generateMockRelativePath(signature)),
+    });
+}
+
+/**
+ * Write a response, letting the local frontend call the server cross-origin
+ */
+export function send(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    status: number,
+    headers: Record<string, string | string[]> | undefined,
+    body: unknown
+): void {
+    const outgoing: Record<string, string | string[]> = {};
+    for (const [name, value] of Object.entries(headers ?? {})) {
+        if (!TRANSFER_HEADERS.includes(name.toLowerCase())) {
+            outgoing[name.toLowerCase()] = value;
+        }
+    }
+
+    if (!outgoing['access-control-allow-origin']) {
+        outgoing['access-control-allow-origin'] = req.headers.origin ?? '*';
+        if (req.headers.origin) {
+            outgoing['access-control-allow-credentials'] = 'true';
+        }
+    }
+
+    let payload = '';
+    if (body !== undefined && body !== null && body !== '') {
+        payload = typeof body === 'string' ? body : JSON.stringify(body);
+        if (typeof body !== 'string' && !outgoing['content-type']) {
+            outgoing['content-type'] = 'application/json';
+        }
+    }
+
+    res.writeHead(status, outgoing);
+    res.end(payload);
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(req: http.IncomingMessage, res: http.ServerResponse, status: number, body: unknown): void {
+    send(req, res, status, { 'content-type': 'application/json' }, body);
+}
+
+/**
+ * Collect the request body
+ */
+export function readRequestBody(req: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Parse JSON bodies, keeping anything else as text (undefined when empty)
+ */
+export function parseBody(text: string, contentType?: string | null): unknown {
+    if (text === '') {
+        return undefined;
+    }
+    if (contentType?.includes('json')) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+    return text;
+}
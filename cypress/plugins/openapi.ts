@@ -0,0 +1,202 @@
+/**
+ * OpenAPI Mock Generator
+ * Loads OpenAPI 3 documents and generates mocks from their responses
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { createGenericSignature, generateMockRelativePath } from '../support/matcher';
+import { ROUTE_INDEX_FILE, RecordedMock } from '../support/mockStorage';
+import {
+    asSchema,
+    asSchemaList,
+    asSchemaMap,
+    getBasePath,
+    getJsonMedia,
+    getSchemaTypes,
+    listOperations,
+    OpenApiDocument,
+    OpenApiSchema,
+    pickSuccessResponse,
+    resolveRef
+} from '../support/openapi';
+
+export interface GenerateOptions {
+    /** Prefix for every path (defaults to the path of servers[0].url) */
+    basePath?: string;
+
+    /** Overwrite existing mock files (recordings are kept by default) */
+    force?: boolean;
+}
+
+/**
+ * Read an OpenAPI document from JSON or YAML
+ */
+export function loadOpenApiDocument(specPath: string): OpenApiDocument {
+    const text = fs.readFileSync(path.resolve(specPath), 'utf-8');
+    const doc = /\.ya?ml$/i.test(specPath) ? parseYaml(text) : JSON.parse(text);
+
+    if (!doc?.openapi || !String(doc.openapi).startsWith('3') || !doc.paths) {
+        throw new Error(`Not an OpenAPI 3 document: ${specPath}`);
+    }
+    return doc as OpenApiDocument;
+}
+
+/**
+ * Generate mocks for every operation, written where generateMockPath would look
+ */
+export function generateMocksFromOpenApi(
+    specPath: string,
+    mockDir: string,
+    options: GenerateOptions = {}
+): { written: string[]; skipped: string[] } {
+    const doc = loadOpenApiDocument(specPath);
+    const written: string[] = [];
+    const skipped: string[] = [];
+    const templates = new Set<string>();
+
+    for (const op of listOperations(doc, options.basePath ?? getBasePath(doc))) {
+        const success = pickSuccessResponse(doc, op.operation);
+        if (!success) {
+            continue;
+        }
+
+        const media = getJsonMedia(success.response);
+        const signature = createGenericSignature(op.method, op.route);
+        const relativePath = generateMockRelativePath(signature);
+        const fullPath = path.resolve(mockDir, relativePath);
+
+        if (op.route.includes(':')) {
+            templates.add(op.route);
+        }
+
+        if (fs.existsSync(fullPath) && !options.force) {
+            skipped.push(relativePath);
+            continue;
+        }
+
+        const mock: RecordedMock = {
+            method: op.method,
+            url: op.route,
+            pathname: op.route,
+            queryParams: {},
+            status: success.status,
+            statusMessage: typeof success.response.description === 'string' ? success.response.description : undefined,
+            responseHeaders: media ? { 'content-type': media.mimeType } : {},
+            response: media ? exampleFromMedia(doc, media.media) : undefined,
+            recordedAt: new Date().toISOString(),
+            metadata: { source: 'openapi', operationId: op.operation.operationId, template: op.template },
+        };
+
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, JSON.stringify(mock, null, 2), 'utf-8');
+        written.push(relativePath);
+    }
+
+    writeRouteIndex(mockDir, [...templates]);
+    return { written, skipped };
+}
+
+/**
+ * Example value for a media object: explicit example, first named example, or schema fake
+ */
+export function exampleFromMedia(doc: OpenApiDocument, media: OpenApiSchema): unknown {
+    if (media.example !== undefined) {
+        return media.example;
+    }
+    const examples = Object.values(asSchemaMap(media.examples));
+    if (examples.length > 0) {
+        return resolveRef(doc, examples[0])?.value;
+    }
+    const schema = asSchema(media.schema);
+    return schema ? fakeFromSchema(doc, schema) : undefined;
+}
+
+/**
+ * Deterministic fake data for a schema
+ */
+export function fakeFromSchema(doc: OpenApiDocument, input: OpenApiSchema, name = 'value', depth = 0): unknown {
+    const schema = resolveRef(doc, input);
+    if (!schema || depth > 8) {
+        return null;
+    }
+
+    if (schema.example !== undefined) return schema.example;
+    if (schema.default !== undefined) return schema.default;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+    if (Array.isArray(schema.allOf)) {
+        return asSchemaList(schema.allOf).reduce<Record<string, unknown>>(
+            (merged, part) => ({
+                ...merged,
+                ...(fakeFromSchema(doc, part, name, depth + 1) as Record<string, unknown>),
+            }),
+            {}
+        );
+    }
+    const [variant] = [...asSchemaList(schema.oneOf), ...asSchemaList(schema.anyOf)];
+    if (variant) {
+        return fakeFromSchema(doc, variant, name, depth + 1);
+    }
+
+    const items = asSchema(schema.items);
+    const minimum = typeof schema.minimum === 'number' ? schema.minimum : undefined;
+    const type = getSchemaTypes(schema).find(t => t !== 'null')
+        ?? (schema.properties ? 'object' : items ? 'array' : 'string');
+
+    switch (type) {
+        case 'object': {
+            const result: Record<string, unknown> = {};
+            for (const [key, child] of Object.entries(asSchemaMap(schema.properties))) {
+                result[key] = fakeFromSchema(doc, child, key, depth + 1);
+            }
+            return result;
+        }
+        case 'array':
+            return items ? [fakeFromSchema(doc, items, name, depth + 1)] : [];
+        case 'integer':
+            return minimum ?? 1;
+        case 'number':
+            return minimum ?? 1.5;
+        case 'boolean':
+            return true;
+        default:
+            return fakeString(typeof schema.format === 'string' ? schema.format : undefined, name);
+    }
+}
+
+/**
+ * Fake string by format
+ */
+function fakeString(format: string | undefined, name: string): string {
+    switch (format) {
+        case 'date-time':
+            return '2024-01-01T00:00:00.000Z';
+        case 'date':
+            return '2024-01-01';
+        case 'email':
+            return 'user@example.com';
+        case 'uuid':
+            return '00000000-0000-4000-8000-000000000000';
+        case 'uri':
+        case 'url':
+            return 'https://example.com';
+        default:
+            return name;
+    }
+}
+
+/**
+ * Merge route templates into the index replay reads on startup
+ */
+function writeRouteIndex(mockDir: string, templates: string[]): void {
+    const indexPath = path.resolve(mockDir, ROUTE_INDEX_FILE);
+    const existing: string[] = fs.existsSync(indexPath)
+        ? JSON.parse(fs.readFileSync(indexPath, 'utf-8')).templates ?? []
+        : [];
+
+    const merged = [...new Set([...existing, ...templates])].sort();
+    fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+    fs.writeFileSync(indexPath, JSON.stringify({ templates: merged }, null, 2), 'utf-8');
+}
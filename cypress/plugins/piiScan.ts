@@ -0,0 +1,108 @@
+/**
+ * PII Scan
+ * Flags values in stored mocks that still look sensitive
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { piiPatterns } from '../config/mock.config';
+import { BLOB_DIR } from '../support/mockStorage';
+import { listMockFiles, readCassetteEntries, readMockFile } from './mockFiles';
+
+export interface PIIFinding {
+    file: string;
+    path: string;
+    kind: string;
+    value: string;
+}
+
+/** Outputs of the redaction rules, which are safe by construction */
+const redactedValuePatterns = [
+    /@example\.com$/i,
+    /^555-01/,
+    /^\*{3}[A-Z]+\*{3}$/,
+    /^\*+[^*]{0,4}$/,
+    /^(hash|tok|fake)_[a-z0-9]+$/,
+];
+
+/**
+ * Scan every mock's (and cassette interaction's) response and request bodies for values matching piiPatterns
+ */
+export function scanMocksForPII(mockDir: string): PIIFinding[] {
+    const findings: PIIFinding[] = [];
+
+    for (const file of listMockFiles(mockDir)) {
+        let mock: Record<string, unknown>;
+        try {
+            mock = readMockFile(path.resolve(mockDir, file), path.join(mockDir, BLOB_DIR)) as Record<string, unknown>;
+        } catch {
+            continue;
+        }
+        findings.push(...scanMock(file, mock));
+    }
+    for (const { file, mock } of readCassetteEntries(mockDir)) {
+        findings.push(...scanMock(file, mock as Record<string, unknown>));
+    }
+
+    return findings;
+}
+
+/**
+ * Scan one mock's bodies
+ */
+function scanMock(file: string, mock: Record<string, unknown> | null): PIIFinding[] {
+    const findings: PIIFinding[] = [];
+    if (!mock) {
+        return findings;
+    }
+
+    const targets: [string, unknown][] = [
+        ['response', mock.response],
+        ['requestBody', mock.requestBody],
+        ['sequence', mock.sequence],
+    ];
+    for (const [root, value] of targets) {
+        walk(value, root, (valuePath, text) => {
+            for (const { pattern, replacement } of piiPatterns) {
+                const matches = text.match(new RegExp(pattern.source, pattern.flags));
+                if (matches && !redactedValuePatterns.some(p => p.test(text))) {
+                    findings.push({
+                        file,
+                        path: valuePath,
+                        kind: replacement.replace(/\*/g, '').toLowerCase(),
+                        value: matches[0],
+                    });
+                }
+            }
+        });
+    }
+
+    return findings;
+}
+
+/**
+ * Merge reversible redaction tokens into a local (git-ignored) token file
+ */
+export function saveRedactionTokens(tokens: Record<string, unknown>, filePath: string): null {
+    const fullPath = path.resolve(filePath);
+    const existing = fs.existsSync(fullPath) ? JSON.parse(fs.readFileSync(fullPath, 'utf-8')) : {};
+
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, JSON.stringify({ ...existing, ...tokens }, null, 2), 'utf-8');
+    return null;
+}
+
+/**
+ * Visit every string leaf with its JSON path
+ */
+function walk(value: unknown, valuePath: string, visit: (valuePath: string, text: string) => void): void {
+    if (typeof value === 'string') {
+        visit(valuePath, value);
+    } else if (Array.isArray(value)) {
+        value.forEach((item, i) => walk(item, `${valuePath}[${i}]`, visit));
+    } else if (value && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+            walk(child, `${valuePath}.${key}`, visit);
+        }
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * Recording Proxy
+ * Reverse proxy that records server-side (non-browser) API traffic into the mock store
+ */
+
+import * as http from 'http';
+import { getConfig, StorageFormat } from '../config/mock.config';
+import { registerRouteTemplates, shouldRecordUrl } from '../support/matcher';
+import { log, RecordedMock, resetSequences } from '../support/mockStorage';
+import {
+    assertFileStorage,
+    forwardRequest,
+    parseBody,
+    readRequestBody,
+    recordExchange,
+    RESET_PATH,
+    send,
+    setScopeNamespaces,
+    startMockServer,
+} from './mockServer';
+
+export interface RecordingProxyOptions {
+    /** Upstream API every request is forwarded to */
+    target: string;
+
+    port: number;
+
+    /** Mock store recordings are written to */
+    dir: string;
+
+    /** Where reversible redaction tokens go */
+    tokensFile?: string;
+
+    /** Storage backend for recordings (default: the mock config's) */
+    storageFormat?: StorageFormat;
+
+    /** Mocks recorded so far, so repeat calls become a sequence (default: one per server) */
+    session?: Map<string, RecordedMock>;
+}
+
+export interface NodeProxyOptions extends RecordingProxyOptions {
+    /** Cypress MODE: record starts the recording proxy, replay/mock/strict the mock server */
+    mode: string;
+
+    /** In replay, proxy and record requests without a mock */
+    autoFallback?: boolean;
+
+    /** Called with each mock file the replay server serves or records */
+    onServed?: (filePath: string) => void;
+}
+
+/** Proxy started from setupNodeEvents, closed before a config reload starts a new one */
+let activeServer: http.Server | null = null;
+
+/** Recording session of the proxy started from setupNodeEvents, cleared before each test */
+const nodeSession = new Map<string, RecordedMock>();
+
+/**
+ * Create the recording proxy (call listen() to start it)
+ */
+export function createRecordingProxy(options: RecordingProxyOptions): http.Server {
+    assertFileStorage(options.dir, options.storageFormat);
+    const session = options.session ?? new Map<string, RecordedMock>();
+
+    return http.createServer((req, res) => {
+        if (req.method === 'POST' && req.url === RESET_PATH) {
+            session.clear();
+            log('info', '🔄 Recording session reset');
+            res.writeHead(204).end();
+            return;
+        }
+
+        proxyRequest(options, session, req, res).catch((error: Error) => {
+            log('error', `❌ ${req.method} ${req.url}: ${error.message}`);
+            send(req, res, 502, { 'content-type': 'application/json' }, { error: 'Upstream request failed', message: error.message });
+        });
+    });
+}
+
+/**
+ * Start the recording proxy and resolve once it is listening
+ */
+export function startRecordingProxy(options: RecordingProxyOptions): Promise<http.Server> {
+    return new Promise((resolve, reject) => {
+        // Thrown inside the executor, so a rejected store (e.g. cassettes) rejects the promise
+        const server = createRecordingProxy(options);
+        server.once('error', reject);
+        server.listen(options.port, () => {
+            log('info', `🔴 Recording ${options.target} through http://localhost:${options.port} into ${options.dir}`);
+            resolve(server);
+        });
+    });
+}
+
+/**
+ * Start the proxy matching the Cypress mode: record through to the upstream,
+ * or serve the recordings back on the same port (nothing in passthrough)
+ */
+export async function startNodeProxy(options: NodeProxyOptions): Promise<http.Server | null> {
+    if (activeServer) {
+        const previous = activeServer;
+        activeServer = null;
+        await new Promise(resolve => previous.close(resolve));
+    }
+
+    resetNodeProxy();
+    const mode = options.mode.toLowerCase();
+    if (mode === 'record') {
+        activeServer = await startRecordingProxy({ ...options, session: nodeSession });
+    } else if (['replay', 'mock', 'strict'].includes(mode)) {
+        activeServer = await startMockServer({
+            dir: options.dir,
+            port: options.port,
+            proxy: options.autoFallback && mode !== 'strict' ? options.target : undefined,
+            tokensFile: options.tokensFile,
+            storageFormat: options.storageFormat,
+            onServed: options.onServed,
+        });
+    }
+
+    return activeServer;
+}
+
+/**
+ * Start the Node proxy's recording session and replay sequences over, like the
+ * browser side does for every test, and replay from the test's mock namespaces
+ */
+export function resetNodeProxy(namespaces: string[] = ['']): null {
+    nodeSession.clear();
+    resetSequences();
+    setScopeNamespaces(namespaces);
+    registerRouteTemplates(getConfig().routeTemplates);
+    return null;
+}
+
+/**
+ * Forward one request and record the exchange
+ */
+async function proxyRequest(
+    options: RecordingProxyOptions,
+    session: Map<string, RecordedMock>,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+): Promise<void> {
+    const rawBody = await readRequestBody(req);
+    const body = parseBody(rawBody.toString('utf-8'), req.headers['content-type']);
+    const url = `${options.target.replace(/\/$/, '')}${req.url}`;
+    const method = (req.method ?? 'GET').toUpperCase();
+
+    const upstream = await forwardRequest(options.target, req, rawBody);
+    log('debug', `📡 ${upstream.statusCode} ${method} ${new URL(url).pathname}`);
+
+    if (shouldRecordUrl(url)) {
+        const request = { method, url, headers: req.headers as Record<string, string | string[]>, body };
+        recordExchange(options.dir, request, upstream, {
+            tokensFile: options.tokensFile,
+            storageFormat: options.storageFormat,
+            session,
+        });
+    } else {
+        log('debug', `⏭️ Skipping (excluded): ${url}`);
+    }
+
+    send(req, res, upstream.statusCode, upstream.headers, upstream.body);
+}
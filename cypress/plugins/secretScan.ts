@@ -0,0 +1,248 @@
+/**
+ * Secret Scan
+ * Finds credentials leaked into stored mocks, reported per file and line
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { sensitiveQueryParams } from '../config/mock.config';
+import { BLOB_DIR } from '../support/mockStorage';
+import { listCassetteFiles, listMockFiles, readBlob } from './mockFiles';
+
+export interface SecretFinding {
+    file: string;
+    line: number;
+    rule: string;
+    excerpt: string;
+}
+
+/** Patterns matched against every string value */
+const secretPatterns: { rule: string; pattern: RegExp }[] = [
+    { rule: 'jwt', pattern: /eyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/ },
+    { rule: 'aws-access-key', pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/ },
+    { rule: 'github-token', pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/ },
+    { rule: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/ },
+];
+
+/** Keys whose values must never be stored in clear text */
+const secretKeyPattern = /^(password|passwd|pwd|pass|secret|client_secret|aws_secret_access_key|private_key)$/i;
+
+/** Values produced by our own sanitizers */
+const redactedValuePattern = /^(\*{3}[A-Z]+\*{3}|\*+.{0,4}|\{\{.*\}\}|hash_[a-z0-9]+|tok_[a-z0-9]+)$/;
+
+/** Minimum length and Shannon entropy (bits/char) for the high-entropy check */
+const ENTROPY_MIN_LENGTH = 24;
+const ENTROPY_THRESHOLD = 4.3;
+
+/**
+ * Scan every mock file and cassette under a directory
+ * Line numbers are lines of the file itself; secrets inside a body stored as a
+ * JSON string or a blob are reported on the line that holds (or references) it
+ */
+export function scanMocksForSecrets(mockDir: string): SecretFinding[] {
+    const blobDir = path.join(mockDir, BLOB_DIR);
+    const files = [...listMockFiles(mockDir), ...listCassetteFiles(mockDir)];
+
+    return files.flatMap((file) => {
+        const filePath = path.join(mockDir, file);
+        const yaml = /\.ya?ml$/i.test(file);
+        const lines = fs.readFileSync(path.resolve(filePath), 'utf-8').split('\n');
+
+        return lines.flatMap((text, index) => {
+            const nestedLines = readNestedBodies(text, yaml, blobDir)
+                .flatMap(body => JSON.stringify(body, null, 2).split('\n'));
+            const results = [...scanLine(text, yaml), ...nestedLines.flatMap(nested => scanLine(nested, false))];
+
+            // A compact JSON line is scanned both as is and expanded; report each secret once
+            const unique = results.filter((result, i) => results.findIndex(r => r.rule === result.rule && r.value === result.value) === i);
+            return unique.map(({ rule, value }) => ({ file: filePath, line: index + 1, rule, excerpt: excerpt(value) }));
+        });
+    });
+}
+
+/**
+ * Format findings as a file:line report
+ */
+export function formatSecretReport(findings: SecretFinding[]): string {
+    if (findings.length === 0) {
+        return '✅ No secrets found in mocks';
+    }
+
+    const lines = findings.map(f => `  ${f.file}:${f.line}  ${f.rule}  ${f.excerpt}`);
+    return `❌ ${findings.length} possible secret(s) found in mocks:\n${lines.join('\n')}`;
+}
+
+/**
+ * Bodies a line holds without showing their keys: JSON objects or arrays encoded
+ * as strings (or written compactly on the line) and blob references
+ */
+function readNestedBodies(text: string, yaml: boolean, blobDir: string): unknown[] {
+    const blobRef = text.match(/^\s*"\$blob"\s*:\s*"([0-9a-f]+)"/);
+    if (blobRef) {
+        try {
+            return [readBlob(blobDir, blobRef[1])];
+        } catch {
+            return [];
+        }
+    }
+
+    return [text.trim(), ...readLine(text, yaml).values]
+        .map(parseJsonContainer)
+        .filter(body => body !== undefined);
+}
+
+/**
+ * A JSON object or array encoded as a string, parsed; undefined for anything else
+ */
+function parseJsonContainer(value: string): object | undefined {
+    if (!/^\s*[[{]/.test(value)) {
+        return undefined;
+    }
+    const parsed = parseJson(value);
+    return parsed !== null && typeof parsed === 'object' ? parsed : undefined;
+}
+
+/**
+ * Parse JSON, or undefined when it isn't valid
+ */
+function parseJson(value: string): unknown {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * The key and string values on one line of a mock file (JSON) or cassette (YAML)
+ */
+function readLine(text: string, yaml: boolean): { key?: string; values: string[] } {
+    const jsonKeyValue = text.match(/^\s*"((?:[^"\\]|\\.)*)"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+    if (jsonKeyValue) {
+        return { key: unquote(`"${jsonKeyValue[1]}"`), values: [unquote(`"${jsonKeyValue[2]}"`)] };
+    }
+
+    if (yaml) {
+        const yamlKeyValue = text.match(/^\s*(?:-\s+)?("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#-][^:#]*?):\s+(.+?)\s*$/);
+        if (yamlKeyValue) {
+            return { key: unquote(yamlKeyValue[1]), values: [unquote(yamlKeyValue[2])] };
+        }
+        const listItem = text.match(/^\s*-\s+(.+?)\s*$/);
+        if (listItem) {
+            return { values: [unquote(listItem[1])] };
+        }
+    }
+
+    const strings = [...text.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map(m => unquote(`"${m[1]}"`));
+    return { values: strings.length > 0 || !yaml ? strings : [text.trim()].filter(Boolean) };
+}
+
+/**
+ * Strip JSON/YAML quotes and unescape, leaving plain scalars as they are
+ */
+function unquote(value: string): string {
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+        const parsed = parseJson(value);
+        return typeof parsed === 'string' ? parsed : value.slice(1, -1);
+    }
+    if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+        return value.slice(1, -1).replace(/''/g, "'");
+    }
+    return value;
+}
+
+/**
+ * Check one line of a mock file or cassette
+ */
+function scanLine(text: string, yaml: boolean): { rule: string; value: string }[] {
+    const results: { rule: string; value: string }[] = [];
+    const { key, values } = readLine(text, yaml);
+
+    // Only the value of a key/value line is checked, never the key
+    if (key !== undefined && secretKeyPattern.test(key) && values[0] && !redactedValuePattern.test(values[0])) {
+        results.push({ rule: 'password-field', value: values[0] });
+    }
+
+    for (const value of values) {
+        // Bodies encoded as JSON strings are scanned expanded instead (see readNestedBodies)
+        if (redactedValuePattern.test(value) || parseJsonContainer(value) !== undefined) {
+            continue;
+        }
+
+        const matched = secretPatterns.find(p => p.pattern.test(value));
+        if (matched) {
+            results.push({ rule: matched.rule, value });
+            continue;
+        }
+
+        const param = findSensitiveQueryParam(value);
+        if (param) {
+            results.push({ rule: 'sensitive-query-param', value: param });
+            continue;
+        }
+
+        if (isHighEntropy(value)) {
+            results.push({ rule: 'high-entropy', value });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Find a credential-bearing query param or form field that was not sanitized
+ * (in a URL after ? or &, or at the start of a form-encoded body)
+ */
+function findSensitiveQueryParam(value: string): string | undefined {
+    for (const [, name, raw] of value.matchAll(/(?:^|[?&])([^=&#?]+)=([^&#\s]*)/g)) {
+        const decoded = safeDecode(raw);
+        if (sensitiveQueryParams.includes(name.toLowerCase()) && decoded && !redactedValuePattern.test(decoded)) {
+            return `${name}=${decoded}`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Random-looking tokens: long, no spaces, mixed alphabet, high Shannon entropy
+ */
+function isHighEntropy(value: string): boolean {
+    if (value.length < ENTROPY_MIN_LENGTH || !/^[A-Za-z0-9+/=_-]+$/.test(value)) {
+        return false;
+    }
+    // Plain hex (hashes, ids) and UUIDs are common and harmless in fixtures
+    if (/^[0-9a-f-]+$/i.test(value)) {
+        return false;
+    }
+
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy >= ENTROPY_THRESHOLD;
+}
+
+/**
+ * Shorten a secret for display without printing it whole
+ */
+function excerpt(value: string): string {
+    const visible = Math.min(8, Math.floor(value.length / 2));
+    return `${value.substring(0, visible)}…(${value.length} chars)`;
+}
+
+/**
+ * Decode a URL component, tolerating malformed input
+ */
+function safeDecode(value = ''): string {
+    try {
+        return decodeURIComponent(value.replace(/\+/g, ' '));
+    } catch {
+        return value;
+    }
+}
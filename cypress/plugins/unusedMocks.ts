@@ -0,0 +1,156 @@
+/**
+ * Unused Mock Report
+ * Tracks which mock files were served across a run and reports (or prunes) the rest
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BLOB_DIR } from '../support/mockStorage';
+import { listCassetteFiles, listMockFiles, sweepBlobs } from './mockFiles';
+
+export interface UnusedMockReport {
+    generatedAt: string;
+    mockDir: string;
+    totalMocks: number;
+    usedMocks: number;
+    unused: string[];
+    pruned: boolean;
+}
+
+/** Mock files served by any spec (or the Node server) in this run, as absolute paths */
+const usedMocks = new Set<string>();
+
+/**
+ * Record mock files served by a spec
+ */
+export function markMocksUsed(files: string[]): null {
+    for (const file of files) {
+        usedMocks.add(path.resolve(file));
+    }
+    return null;
+}
+
+/**
+ * Mock files in a store nothing has served so far, relative to the store
+ */
+export function listUnusedMocks(mockDir: string): { allMocks: string[]; unused: string[] } {
+    // Dotfiles such as .gitkeep.json are placeholders, never mocks; a cassette
+    // counts as used once any of its interactions was served
+    const allMocks = [
+        ...listMockFiles(mockDir).filter(file => !path.basename(file).startsWith('.')),
+        ...listCassetteFiles(mockDir),
+    ];
+    const unused = allMocks.filter(file => !usedMocks.has(path.resolve(mockDir, file))).sort();
+    return { allMocks, unused };
+}
+
+/**
+ * Spec files matching the spec pattern that are not among the specs that ran
+ * (a --spec run never serves the other specs' mocks, so they only look unused)
+ */
+export function findSkippedSpecs(specPattern: string | string[], ranSpecs: string[]): string[] {
+    const ran = new Set(ranSpecs.map(toPosix));
+    const patterns = Array.isArray(specPattern) ? specPattern : [specPattern];
+
+    const specs = patterns.flatMap((pattern) => {
+        const segments = toPosix(pattern).split('/');
+        const globStart = segments.findIndex(segment => /[*?{]/.test(segment));
+        const baseDir = globStart === -1 ? path.dirname(pattern) : segments.slice(0, globStart).join('/') || '.';
+        const matcher = globToRegExp(toPosix(pattern));
+        return listFiles(baseDir).filter(file => matcher.test(file));
+    });
+
+    return [...new Set(specs)].filter(spec => !ran.has(spec)).sort();
+}
+
+/**
+ * Files under a directory, relative to the working directory with forward slashes
+ * (node_modules is never searched for specs, as in Cypress)
+ */
+function listFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+        const entryPath = toPosix(path.join(dir, entry.name));
+        if (entry.isDirectory()) {
+            return entry.name === 'node_modules' ? [] : listFiles(entryPath);
+        }
+        return [entryPath];
+    });
+}
+
+/**
+ * Translate a spec glob (**, *, ? and {a,b}) into a regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (pattern.startsWith('**/', i)) {
+            source += '(?:.*/)?';
+            i += 2;
+        } else if (pattern.startsWith('**', i)) {
+            source += '.*';
+            i += 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            source += '(?:';
+            braces++;
+        } else if (char === '}' && braces > 0) {
+            source += ')';
+            braces--;
+        } else if (char === ',' && braces > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^(?:\\./)?${source}$`);
+}
+
+/**
+ * Normalize Windows separators
+ */
+function toPosix(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
+
+/**
+ * Compare served mocks against the store, write the report and optionally prune
+ */
+export function writeUnusedMockReport(
+    mockDir: string,
+    reportPath: string,
+    prune: boolean
+): UnusedMockReport {
+    const { allMocks, unused } = listUnusedMocks(mockDir);
+
+    if (prune) {
+        for (const file of unused) {
+            fs.rmSync(path.resolve(mockDir, file), { force: true });
+        }
+        // Bodies only the pruned mocks pointed at would otherwise stay behind
+        sweepBlobs(mockDir, path.join(mockDir, BLOB_DIR));
+    }
+
+    const report: UnusedMockReport = {
+        generatedAt: new Date().toISOString(),
+        mockDir,
+        totalMocks: allMocks.length,
+        usedMocks: allMocks.length - unused.length,
+        unused,
+        pruned: prune,
+    };
+
+    const fullReportPath = path.resolve(reportPath);
+    fs.mkdirSync(path.dirname(fullReportPath), { recursive: true });
+    fs.writeFileSync(fullReportPath, JSON.stringify(report, null, 2), 'utf-8');
+
+    return report;
+}
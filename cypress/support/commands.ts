@@ -3,9 +3,15 @@
  * Extends Cypress with network mocking capabilities
  */
 
-import { initNetworkRecorder, stopNetworkRecorder, getRecorderState, getMode } from './networkRecorder';
+import { initNetworkRecorder, stopNetworkRecorder, getRecorderState, getMode, NetworkMockingOptions } from './networkRecorder';
 import { clearAllMocks, listMocks, preloadMocks, getSessionMocks } from './mockStorage';
+import { importHar, exportHar, ExportHarOptions } from './har';
+import { injectFault, FaultRule } from './faults';
+import { overrideMock, MockPatch, OverrideMatcher } from './overrides';
 import { getConfig } from '../config/mock.config';
+import type { PIIFinding } from '../plugins/piiScan';
+import type { SecretFinding } from '../plugins/secretScan';
+import type { DriftResult, VerifyOptions } from '../plugins/driftCheck';
 
 // Extend Cypress types
 declare global {
@@ -13,9 +19,11 @@ declare global {
         interface Chainable {
             /**
              * Enable network mocking based on MODE environment variable
+             * Pass a scope to keep recordings per spec or per test
              * @example cy.enableNetworkMocking()
+             * @example cy.enableNetworkMocking({ scope: 'test' })
              */
-            enableNetworkMocking(): Chainable<void>;
+            enableNetworkMocking(options?: NetworkMockingOptions): Chainable<void>;
 
             /**
              * Disable network mocking
@@ -64,25 +72,73 @@ declare global {
              * @example cy.getMode().then(mode => console.log(mode))
              */
             getMode(): Chainable<'record' | 'replay' | 'passthrough'>;
+
+            /**
+             * Import a HAR 1.2 capture into the mock store
+             * @example cy.importHar('traces/checkout.har')
+             */
+            importHar(harPath: string): Chainable<string[]>;
+
+            /**
+             * Export recorded mocks as a HAR 1.2 file (session mocks by default)
+             * @example cy.exportHar('cypress/har/session.har', { all: true })
+             */
+            exportHar(harPath: string, options?: ExportHarOptions): Chainable<number>;
+
+            /**
+             * Break matching replayed responses for the current test
+             * @example cy.injectFault({ match: '/api/orders', kind: 'status', statusCode: 503, times: 1 })
+             * @example cy.injectFault({ match: '/api/search', kind: 'network-error', probability: 0.5 })
+             */
+            injectFault(rule: FaultRule): Chainable<void>;
+
+            /**
+             * Patch matching replayed responses for the current test
+             * @example cy.overrideMock('/api/orders', { merge: { orders: [] } })
+             * @example cy.overrideMock({ method: 'GET', url: /\/api\/user$/ }, { statusCode: 403, headers: { 'x-reason': 'suspended' } })
+             * @example cy.overrideMock('/api/cart', { patch: [{ op: 'replace', path: '/items/0/qty', value: 3 }] })
+             */
+            overrideMock(matcher: OverrideMatcher, patch: MockPatch): Chainable<void>;
+
+            /**
+             * Flag values in the mock store that still look like PII
+             * @example cy.scanMocksForPII().should('have.length', 0)
+             */
+            scanMocksForPII(): Chainable<PIIFinding[]>;
+
+            /**
+             * Find leaked credentials (JWTs, API keys, passwords...) in the mock store
+             * @example cy.scanMocksForSecrets().should('have.length', 0)
+             */
+            scanMocksForSecrets(): Chainable<SecretFinding[]>;
+
+            /**
+             * Send every stored request to the real API and report schema drift per mock
+             * (only GET/HEAD/OPTIONS unless includeUnsafe is set)
+             * @example cy.verifyMocks().then(results => results.filter(r => r.changes.length))
+             */
+            verifyMocks(options?: Pick<VerifyOptions, 'includeUnsafe'>): Chainable<DriftResult[]>;
         }
     }
 }
 
 // Register commands
-Cypress.Commands.add('enableNetworkMocking', () => {
+Cypress.Commands.add('enableNetworkMocking', (options: NetworkMockingOptions = {}) => {
     const mode = getMode();
+    const scope = options.scope ?? getConfig().mockScope;
 
     Cypress.log({
         name: 'enableNetworkMocking',
         displayName: '🎬 MOCK',
-        message: `Enabled in ${mode.toUpperCase()} mode`,
+        message: `Enabled in ${mode.toUpperCase()} mode (${scope} scope)`,
         consoleProps: () => ({
             mode,
+            scope,
             config: getConfig(),
         }),
     });
 
-    initNetworkRecorder();
+    initNetworkRecorder(options);
 });
 
 Cypress.Commands.add('disableNetworkMocking', () => {
@@ -180,3 +236,115 @@ Cypress.Commands.add('getMode', () => {
 
     return cy.wrap(mode);
 });
+
+Cypress.Commands.add('importHar', (harPath: string) => {
+    Cypress.log({
+        name: 'importHar',
+        displayName: '📥 MOCK',
+        message: `Importing ${harPath}`,
+    });
+
+    return importHar(harPath).then((files) => {
+        Cypress.log({
+            name: 'importHar',
+            displayName: '✅ MOCK',
+            message: `Imported ${files.length} mocks`,
+            consoleProps: () => ({ files }),
+        });
+        return files;
+    });
+});
+
+Cypress.Commands.add('exportHar', (harPath: string, options?: ExportHarOptions) => {
+    Cypress.log({
+        name: 'exportHar',
+        displayName: '📤 MOCK',
+        message: `Exporting ${options?.all ? 'all' : 'session'} mocks to ${harPath}`,
+    });
+
+    return exportHar(harPath, options).then((count) => {
+        Cypress.log({
+            name: 'exportHar',
+            displayName: '✅ MOCK',
+            message: `Exported ${count} HAR entries`,
+        });
+        return count;
+    });
+});
+
+Cypress.Commands.add('injectFault', (rule: FaultRule) => {
+    Cypress.log({
+        name: 'injectFault',
+        displayName: '💥 MOCK',
+        message: `${rule.kind} fault on ${rule.match}`,
+        consoleProps: () => ({ rule }),
+    });
+
+    injectFault(rule);
+});
+
+Cypress.Commands.add('overrideMock', (matcher: OverrideMatcher, patch: MockPatch) => {
+    const target = typeof matcher === 'object' && !(matcher instanceof RegExp)
+        ? `${matcher.method ?? '*'} ${matcher.url}`
+        : String(matcher);
+
+    Cypress.log({
+        name: 'overrideMock',
+        displayName: '🩹 MOCK',
+        message: `override ${target}`,
+        consoleProps: () => ({ matcher, patch }),
+    });
+
+    overrideMock(matcher, patch);
+});
+
+Cypress.Commands.add('scanMocksForPII', () => {
+    const config = getConfig();
+
+    return cy.task('scanMocksForPII', { dirPath: config.mockDir }, { log: false }).then((result) => {
+        const findings = result as PIIFinding[];
+
+        Cypress.log({
+            name: 'scanMocksForPII',
+            displayName: findings.length ? '⚠️ MOCK' : '✅ MOCK',
+            message: `${findings.length} possible PII values in mocks`,
+            consoleProps: () => ({ findings }),
+        });
+        return findings;
+    });
+});
+
+Cypress.Commands.add('scanMocksForSecrets', () => {
+    const config = getConfig();
+
+    return cy.task('scanMocksForSecrets', { dirPath: config.mockDir }, { log: false }).then((result) => {
+        const findings = result as SecretFinding[];
+
+        Cypress.log({
+            name: 'scanMocksForSecrets',
+            displayName: findings.length ? '❌ MOCK' : '✅ MOCK',
+            message: `${findings.length} possible secrets in mocks`,
+            consoleProps: () => ({ findings }),
+        });
+        return findings;
+    });
+});
+
+Cypress.Commands.add('verifyMocks', (options: Pick<VerifyOptions, 'includeUnsafe'> = {}) => {
+    const config = getConfig();
+    const task = { dirPath: config.mockDir, includeUnsafe: options.includeUnsafe };
+
+    return cy.task('verifyMocks', task, { log: false, timeout: 300000 }).then((result) => {
+        const results = result as DriftResult[];
+        const checked = results.filter(r => !r.skipped);
+        const drifted = checked.filter(r => r.changes.length > 0 || r.error);
+
+        Cypress.log({
+            name: 'verifyMocks',
+            displayName: drifted.length ? '❌ MOCK' : '✅ MOCK',
+            message: `${drifted.length} of ${checked.length} mocks drifted from the live API`,
+            consoleProps: () => ({ drifted, skipped: results.filter(r => r.skipped) }),
+        });
+        return results;
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Contract Validation
+ * Checks recorded and replayed responses against an OpenAPI document
+ */
+
+import { getConfig } from '../config/mock.config';
+import { log } from './mockStorage';
+import { findOperation, getResponseSchema, OpenApiDocument, validateSchema } from './openapi';
+
+/** Loaded OpenAPI document (null when no spec is configured) */
+let contract: OpenApiDocument | null = null;
+
+/** Responses that broke the contract in the current test */
+const contractViolations: ContractViolation[] = [];
+
+export interface ContractViolation {
+    method: string;
+    url: string;
+    status: number;
+    /** Documented route, e.g. /users/{id} */
+    template: string;
+    errors: string[];
+}
+
+/**
+ * Load the configured OpenAPI document (once per spec)
+ */
+export function loadContract(): Cypress.Chainable<OpenApiDocument | null> {
+    const config = getConfig();
+    contractViolations.length = 0;
+
+    if (!config.openApiSpec || contract) {
+        return cy.wrap<OpenApiDocument | null>(contract, { log: false });
+    }
+
+    return cy.task<OpenApiDocument>('readOpenApiSpec', { filePath: config.openApiSpec }, { log: false }).then((doc) => {
+        contract = doc;
+        log('info', `📜 Validating responses against ${config.openApiSpec}`);
+        return doc;
+    }) as Cypress.Chainable<OpenApiDocument | null>;
+}
+
+/**
+ * Validate one response against its documented operation
+ * Returns the violations found (empty when valid or undocumented)
+ */
+export function validateContract(method: string, url: string, status: number, body: unknown): string[] {
+    if (!contract) {
+        return [];
+    }
+
+    const pathname = new URL(url).pathname;
+    const operation = findOperation(contract, method, pathname);
+    if (!operation) {
+        log('debug', `📜 No documented operation for ${method} ${pathname}`);
+        return [];
+    }
+
+    const schema = getResponseSchema(contract, operation.operation, status);
+    const errors = schema === undefined
+        ? [`status ${status} is not documented`]
+        : schema === null ? [] : validateSchema(contract, schema, body);
+
+    if (errors.length > 0) {
+        contractViolations.push({ method, url, status, template: operation.template, errors });
+        log('warn', `📜 Contract violation: ${method} ${operation.template} (${errors.length})`);
+        Cypress.log({
+            name: 'contract',
+            message: `${method} ${operation.template} → ${status}: ${errors.length} violation(s)`,
+            consoleProps: () => ({ url, status, errors }),
+        });
+    }
+
+    return errors;
+}
+
+/**
+ * Get contract violations seen in the current test
+ */
+export function getContractViolations(): ContractViolation[] {
+    return [...contractViolations];
+}
+
+/**
+ * Throw if strict replay saw responses that break the contract
+ */
+export function assertNoContractViolations(): void {
+    const config = getConfig();
+    if (!config.strictReplay || contractViolations.length === 0) {
+        return;
+    }
+
+    const lines = contractViolations.map(
+        v => `  ${v.method} ${v.url} → ${v.status} (${v.template})\n${v.errors.map(e => `    ${e}`).join('\n')}`
+    );
+    contractViolations.length = 0;
+
+    throw new Error(
+        `Contract check: ${lines.length} response(s) do not match the OpenAPI spec:\n${lines.join('\n')}\n` +
+        'Re-record the mocks or update the spec.'
+    );
+}
@@ -7,10 +7,19 @@
 import './commands';
 
 // Import modules for type augmentation
-import './networkRecorder';
+import { assertNoUnmatchedRequests } from './networkRecorder';
 import './matcher';
+import './graphql';
 import './sanitizer';
-import './mockStorage';
+import { getServedMocks, getSessionMocks } from './mockStorage';
+import './har';
+import './latency';
+import './templating';
+import { getIssuedTokens } from './redaction';
+import { clearFaults } from './faults';
+import { clearOverrides } from './overrides';
+import { resetResources } from './resources';
+import { assertNoContractViolations } from './contract';
 
 // Log startup info
 beforeEach(() => {
@@ -20,5 +29,26 @@ beforeEach(() => {
 
 // Cleanup after each test
 afterEach(() => {
-    // Could add cleanup logic here if needed
+    // Strict replay: fail the test if any request had no recorded mock
+    cy.then(() => assertNoUnmatchedRequests());
+
+    // Strict replay: fail the test if a response broke the OpenAPI contract
+    cy.then(() => assertNoContractViolations());
+
+    // Fault rules, mock overrides and resource state only live for one test
+    clearFaults();
+    clearOverrides();
+    resetResources();
+});
+
+// Report which mocks this spec served, for the unused-mock report; mocks
+// AUTO_FALLBACK recorded during replay answered a request too
+after(() => {
+    cy.task('markMocksUsed', { files: [...getServedMocks(), ...getSessionMocks()] }, { log: false });
+
+    // Keep reversible redaction tokens outside the committed mocks
+    const tokens = getIssuedTokens();
+    if (Object.keys(tokens).length > 0) {
+        cy.task('saveRedactionTokens', { tokens }, { log: false });
+    }
 });
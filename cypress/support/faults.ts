@@ -0,0 +1,124 @@
+/**
+ * Fault Injection
+ * Rules that deliberately break replayed responses
+ */
+
+import { log } from './mockStorage';
+
+export type FaultKind = 'status' | 'network-error' | 'truncate' | 'delay';
+
+export interface FaultRule {
+    /** URL pattern (regex string or RegExp) */
+    match: string | RegExp;
+
+    /** What to break */
+    kind: FaultKind;
+
+    /** Only apply to this HTTP method */
+    method?: string;
+
+    /** Status code for 'status' faults (default 500) */
+    statusCode?: number;
+
+    /** Extra delay in ms for 'delay' faults (default 3000) */
+    delay?: number;
+
+    /** Characters kept for 'truncate' faults (default half the body) */
+    truncateAt?: number;
+
+    /** Chance (0-1) that a matching request is affected (default 1) */
+    probability?: number;
+
+    /** Maximum number of requests affected (default unlimited) */
+    times?: number;
+}
+
+/** A reply the replay interceptor is about to send */
+export interface FaultableReply {
+    statusCode?: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+    delay?: number;
+    throttleKbps?: number;
+    forceNetworkError?: boolean;
+}
+
+/** Active rules with their remaining budget */
+const faultRules: { rule: FaultRule; remaining: number }[] = [];
+
+/**
+ * Register a fault rule for the current test
+ */
+export function injectFault(rule: FaultRule): void {
+    faultRules.push({ rule, remaining: rule.times ?? Infinity });
+}
+
+/**
+ * Remove all fault rules (called after each test)
+ */
+export function clearFaults(): void {
+    faultRules.length = 0;
+}
+
+/**
+ * Get the active fault rules
+ */
+export function getFaults(): FaultRule[] {
+    return faultRules.map(f => f.rule);
+}
+
+/**
+ * Apply the first matching fault to a reply
+ * Returns the reply untouched when no fault fires
+ */
+export function applyFaults(method: string, url: string, reply: FaultableReply): FaultableReply {
+    for (const fault of faultRules) {
+        const { rule } = fault;
+
+        if (fault.remaining <= 0 || !matchesFault(rule, method, url)) {
+            continue;
+        }
+        if (Math.random() >= (rule.probability ?? 1)) {
+            continue;
+        }
+
+        fault.remaining--;
+        log('info', `💥 Injecting ${rule.kind} fault: ${method} ${url}`);
+        return breakReply(rule, reply);
+    }
+
+    return reply;
+}
+
+/**
+ * Check if a rule targets this request
+ */
+function matchesFault(rule: FaultRule, method: string, url: string): boolean {
+    if (rule.method && rule.method.toUpperCase() !== method.toUpperCase()) {
+        return false;
+    }
+    const pattern = typeof rule.match === 'string' ? new RegExp(rule.match, 'i') : rule.match;
+    return pattern.test(url);
+}
+
+/**
+ * Change a reply according to the fault kind
+ */
+function breakReply(rule: FaultRule, reply: FaultableReply): FaultableReply {
+    switch (rule.kind) {
+        case 'status':
+            return { ...reply, statusCode: rule.statusCode ?? 500 };
+        case 'network-error':
+            // Cypress rejects forceNetworkError combined with any other option
+            return { forceNetworkError: true };
+        case 'truncate': {
+            const text = typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body ?? '');
+            const keep = rule.truncateAt ?? Math.floor(text.length / 2);
+            return { ...reply, body: text.substring(0, keep) };
+        }
+        case 'delay':
+            return { ...reply, delay: (reply.delay ?? 0) + (rule.delay ?? 3000) };
+        default:
+            return reply;
+    }
+}
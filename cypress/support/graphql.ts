@@ -0,0 +1,113 @@
+/**
+ * GraphQL Support
+ * Extracts operation details from GraphQL requests
+ */
+
+import { getConfig } from '../config/mock.config';
+
+export interface GraphQLOperation {
+    /** Operation name (explicit, parsed from the document, or derived) */
+    operationName: string;
+
+    /** Query document, absent for persisted queries sent by hash only */
+    query?: string;
+
+    /** Operation variables */
+    variables: Record<string, unknown>;
+
+    /** Automatic persisted query hash (extensions.persistedQuery.sha256Hash) */
+    persistedQueryHash?: string;
+}
+
+/**
+ * Check if a URL targets a configured GraphQL endpoint
+ */
+export function isGraphQLEndpoint(url: string): boolean {
+    const config = getConfig();
+    if (!config.graphqlMode) {
+        return false;
+    }
+    return config.graphqlEndpoints.some(pattern => new RegExp(pattern, 'i').test(url));
+}
+
+/**
+ * Extract the GraphQL operation from a request body (POST) or query params (GET)
+ */
+export function extractGraphQLOperation(
+    body: unknown,
+    queryParams: Record<string, string> = {}
+): GraphQLOperation | null {
+    const payload = parsePayload(body) ?? fromQueryParams(queryParams);
+
+    // Batched operations are keyed on the first entry
+    const operation = Array.isArray(payload) ? payload[0] : payload;
+    if (!operation || typeof operation !== 'object') {
+        return null;
+    }
+
+    const { operationName, query, variables, extensions } = operation as {
+        operationName?: string;
+        query?: string;
+        variables?: Record<string, unknown>;
+        extensions?: { persistedQuery?: { sha256Hash?: string } };
+    };
+
+    const persistedQueryHash = extensions?.persistedQuery?.sha256Hash;
+    if (!query && !persistedQueryHash) {
+        return null;
+    }
+
+    return {
+        operationName: operationName || parseOperationName(query) || deriveOperationName(persistedQueryHash),
+        query,
+        variables: variables || {},
+        persistedQueryHash,
+    };
+}
+
+/**
+ * Read the operation name from a query document
+ */
+export function parseOperationName(query?: string): string | undefined {
+    if (!query) {
+        return undefined;
+    }
+    const match = query.match(/\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * Fallback name for anonymous operations
+ */
+function deriveOperationName(persistedQueryHash?: string): string {
+    return persistedQueryHash ? `persisted_${persistedQueryHash.substring(0, 12)}` : 'anonymous';
+}
+
+/**
+ * Parse a JSON body into an object
+ */
+function parsePayload(body: unknown): unknown {
+    if (typeof body === 'string') {
+        try {
+            return JSON.parse(body);
+        } catch {
+            return null;
+        }
+    }
+    return body ?? null;
+}
+
+/**
+ * Rebuild a GraphQL payload from GET query params
+ */
+function fromQueryParams(queryParams: Record<string, string>): unknown {
+    if (!queryParams.query && !queryParams.extensions) {
+        return null;
+    }
+    return {
+        operationName: queryParams.operationName,
+        query: queryParams.query,
+        variables: parsePayload(queryParams.variables) ?? undefined,
+        extensions: parsePayload(queryParams.extensions) ?? undefined,
+    };
+}
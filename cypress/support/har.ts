@@ -0,0 +1,336 @@
+/**
+ * HAR Import/Export
+ * Converts between HAR 1.2 captures and recorded mocks
+ */
+
+import { getConfig } from '../config/mock.config';
+import { extractPathname, extractQueryParams, shouldRecordUrl } from './matcher';
+import {
+    getBlobDir,
+    getCassetteInteractions,
+    getResponses,
+    getSessionMocks,
+    listMocks,
+    log,
+    RecordedMock,
+    RecordedResponse,
+    saveMock
+} from './mockStorage';
+import { sanitizeHeaders } from './sanitizer';
+
+export interface HarHeader {
+    name: string;
+    value: string;
+}
+
+export interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        httpVersion: string;
+        headers: HarHeader[];
+        queryString: HarHeader[];
+        cookies: unknown[];
+        headersSize: number;
+        bodySize: number;
+        postData?: { mimeType: string; text: string };
+    };
+    response: {
+        status: number;
+        statusText: string;
+        httpVersion: string;
+        headers: HarHeader[];
+        cookies: unknown[];
+        content: { size: number; mimeType: string; text?: string; encoding?: string };
+        redirectURL: string;
+        headersSize: number;
+        bodySize: number;
+    };
+    cache: Record<string, unknown>;
+    timings: { send: number; wait: number; receive: number };
+}
+
+export interface Har {
+    log: {
+        version: string;
+        creator: { name: string; version: string };
+        entries: HarEntry[];
+    };
+}
+
+export interface ExportHarOptions {
+    /** Export every mock in the store instead of only this session's recordings */
+    all?: boolean;
+}
+
+/**
+ * Convert a HAR entry into a recorded mock
+ */
+export function harEntryToMock(entry: HarEntry): RecordedMock {
+    const { request, response } = entry;
+    const requestHeaders = sanitizeHeaders(fromHarHeaders(request.headers));
+    const responseHeaders = sanitizeHeaders(fromHarHeaders(response.headers));
+
+    return {
+        method: request.method.toUpperCase(),
+        url: request.url,
+        pathname: extractPathname(request.url),
+        queryParams: extractQueryParams(request.url),
+        status: response.status,
+        statusMessage: response.statusText || undefined,
+        requestHeaders,
+        responseHeaders,
+        requestBody: request.postData ? parseContent(request.postData.text, request.postData.mimeType) : undefined,
+        response: parseContent(response.content.text, response.content.mimeType, response.content.encoding),
+        responseTime: Math.max(0, Math.round(entry.time)),
+        recordedAt: entry.startedDateTime,
+        // Binary bodies stay base64; the flag lets export write them back as such
+        metadata: isBinaryContent(response.content.mimeType, response.content.encoding)
+            ? { source: 'har', encoding: 'base64' }
+            : { source: 'har' },
+    };
+}
+
+/**
+ * Convert recorded mocks into a HAR 1.2 document (one entry per recorded response)
+ */
+export function mocksToHar(mocks: RecordedMock[], baseUrl?: string | null): Har {
+    const entries: HarEntry[] = [];
+
+    for (const mock of mocks) {
+        const url = toAbsoluteUrl(mock.url, baseUrl);
+        const requestText = serializeContent(mock.requestBody);
+
+        for (const response of getResponses(mock)) {
+            entries.push(toHarEntry(mock, response, url, requestText));
+        }
+    }
+
+    entries.sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+
+    return {
+        log: {
+            version: '1.2',
+            creator: { name: 'cypress-network-mock-recorder', version: '1.0.0' },
+            entries,
+        },
+    };
+}
+
+/**
+ * Import a HAR file into the mock store the way record mode saves responses
+ * (redacted, templated, under route templates and the active namespace or cassette)
+ * Entries that share a mock path become a response sequence
+ */
+export function importHar(harPath: string): Cypress.Chainable<string[]> {
+    return cy.task('readHar', { filePath: harPath }, { log: false }).then((har) => {
+        const entries = (har as Har).log.entries.filter(entry => shouldRecordUrl(entry.request.url));
+        const filePaths: string[] = [];
+
+        for (const entry of entries) {
+            const mock = harEntryToMock(entry);
+            saveMock(
+                { method: mock.method, url: mock.url, headers: mock.requestHeaders, body: mock.requestBody },
+                { statusCode: mock.status, statusMessage: mock.statusMessage, headers: mock.responseHeaders, body: mock.response },
+                mock.responseTime,
+                { recordedAt: mock.recordedAt, metadata: mock.metadata }
+            ).then((filePath) => {
+                if (!filePaths.includes(filePath)) {
+                    filePaths.push(filePath);
+                }
+            });
+        }
+
+        return cy.wrap(filePaths, { log: false }).then(() => {
+            log('info', `📥 Imported ${entries.length} HAR entries into ${filePaths.length} mocks`);
+            return filePaths;
+        });
+    });
+}
+
+/**
+ * Export recorded mocks as a single HAR file
+ */
+export function exportHar(harPath: string, options: ExportHarOptions = {}): Cypress.Chainable<number> {
+    const config = getConfig();
+    const mocks: RecordedMock[] = [];
+
+    // A cassette already holds the spec's interactions in order
+    if (config.storageFormat === 'cassette') {
+        return getCassetteInteractions().then(interactions => writeHarExport(harPath, interactions));
+    }
+
+    const files: Cypress.Chainable<string[]> = options.all
+        ? listMocks().then(list => list.map(file => `${config.mockDir}/${file}`))
+        : cy.wrap(getSessionMocks(), { log: false });
+
+    return files.then((filePaths) => {
+        filePaths.forEach((filePath) => {
+            cy.task('readMock', { filePath, blobDir: getBlobDir() }, { log: false }).then((mock) => {
+                if (mock && (mock as RecordedMock).method) {
+                    mocks.push(mock as RecordedMock);
+                }
+            });
+        });
+
+        return cy.then(() => writeHarExport(harPath, mocks));
+    });
+}
+
+/**
+ * Write mocks to a HAR file, returning the entry count
+ */
+function writeHarExport(harPath: string, mocks: RecordedMock[]): Cypress.Chainable<number> {
+    const har = mocksToHar(mocks, Cypress.config('baseUrl'));
+    return cy.task('writeHar', { filePath: harPath, data: har }, { log: false }).then(() => {
+        log('info', `📤 Exported ${har.log.entries.length} HAR entries to ${harPath}`);
+        return har.log.entries.length;
+    });
+}
+
+/**
+ * Build one HAR entry for a recorded response
+ */
+function toHarEntry(mock: RecordedMock, response: RecordedResponse, url: string, requestText?: string): HarEntry {
+    const responseText = serializeContent(response.response) ?? '';
+    const requestHeaders = toHarHeaders(mock.requestHeaders);
+    const responseHeaders = toHarHeaders(response.responseHeaders);
+    const wait = response.responseTime ?? 0;
+
+    return {
+        startedDateTime: response.recordedAt,
+        time: wait,
+        request: {
+            method: mock.method,
+            url,
+            httpVersion: 'HTTP/1.1',
+            headers: requestHeaders,
+            queryString: Object.entries(mock.queryParams || {}).map(([name, value]) => ({ name, value })),
+            cookies: [],
+            headersSize: -1,
+            bodySize: requestText ? requestText.length : 0,
+            postData: requestText !== undefined
+                ? { mimeType: headerValue(requestHeaders, 'content-type') || 'application/json', text: requestText }
+                : undefined,
+        },
+        response: {
+            status: response.status,
+            statusText: response.statusMessage || '',
+            httpVersion: 'HTTP/1.1',
+            headers: responseHeaders,
+            cookies: [],
+            content: {
+                size: responseText.length,
+                mimeType: headerValue(responseHeaders, 'content-type') || 'application/json',
+                text: responseText,
+                encoding: mock.metadata?.encoding === 'base64' ? 'base64' : undefined,
+            },
+            redirectURL: headerValue(responseHeaders, 'location') || '',
+            headersSize: -1,
+            bodySize: responseText.length,
+        },
+        cache: {},
+        timings: { send: 0, wait, receive: 0 },
+    };
+}
+
+/**
+ * Convert HAR header list into a header record (repeated names become arrays)
+ */
+function fromHarHeaders(headers: HarHeader[] = []): Record<string, string | string[]> {
+    const result: Record<string, string | string[]> = {};
+    for (const { name, value } of headers) {
+        const key = name.toLowerCase();
+        const current = result[key];
+        if (current === undefined) {
+            result[key] = value;
+        } else {
+            result[key] = Array.isArray(current) ? [...current, value] : [current, value];
+        }
+    }
+    return result;
+}
+
+/**
+ * Convert a header record into a HAR header list
+ */
+function toHarHeaders(headers: Record<string, string | string[]> = {}): HarHeader[] {
+    return Object.entries(headers).flatMap(([name, value]) =>
+        (Array.isArray(value) ? value : [value]).map(v => ({ name, value: String(v) }))
+    );
+}
+
+/**
+ * Look up a header value in a HAR header list
+ */
+function headerValue(headers: HarHeader[], name: string): string | undefined {
+    return headers.find(h => h.name.toLowerCase() === name)?.value;
+}
+
+/**
+ * Parse HAR content text, decoding base64 text and JSON bodies
+ */
+function parseContent(text: string | undefined, mimeType = '', encoding?: string): unknown {
+    if (text === undefined || text === '') {
+        return undefined;
+    }
+
+    // Binary payloads stay base64 encoded
+    if (isBinaryContent(mimeType, encoding)) {
+        return text;
+    }
+    const decoded = encoding === 'base64' ? decodeBase64Text(text) : text;
+
+    if (mimeType.includes('json')) {
+        try {
+            return JSON.parse(decoded);
+        } catch {
+            return decoded;
+        }
+    }
+    return decoded;
+}
+
+/**
+ * Check for base64 content that isn't text (images, archives, ...)
+ */
+function isBinaryContent(mimeType = '', encoding?: string): boolean {
+    return encoding === 'base64' && !/json|^text\/|xml|javascript|x-www-form-urlencoded/i.test(mimeType);
+}
+
+/**
+ * Decode base64 into UTF-8 text
+ */
+function decodeBase64Text(text: string): string {
+    try {
+        return new TextDecoder().decode(Uint8Array.from(atob(text), char => char.charCodeAt(0)));
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Serialize a recorded body to HAR content text
+ */
+function serializeContent(body: unknown): string | undefined {
+    if (body === undefined || body === null) {
+        return undefined;
+    }
+    return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+/**
+ * HAR requires absolute URLs; resolve relative ones against baseUrl
+ */
+function toAbsoluteUrl(url: string, baseUrl?: string | null): string {
+    if (url.startsWith('http')) {
+        return url;
+    }
+    try {
+        return new URL(url, baseUrl || 'http://localhost').toString();
+    } catch {
+        return url;
+    }
+}
@@ -0,0 +1,66 @@
+/**
+ * Latency Simulation
+ * Computes replay delays and bandwidth throttling per request
+ */
+
+import { getConfig, LatencyStrategy, networkProfiles } from '../config/mock.config';
+
+export interface ReplayTiming {
+    /** Delay before the response is sent (ms) */
+    delay?: number;
+
+    /** Bandwidth limit for the response body */
+    throttleKbps?: number;
+}
+
+/**
+ * Resolve delay and throttling for a replayed response
+ * (profile names are checked once at startup, see assertNetworkProfiles)
+ */
+export function getReplayTiming(method: string, url: string, recordedTime?: number): ReplayTiming {
+    const config = getConfig();
+    if (!config.simulateLatency) {
+        return {};
+    }
+
+    const rule = config.latencyRules.find(r => new RegExp(r.pattern, 'i').test(url));
+    const profileName = rule?.profile ?? config.networkProfile;
+    const profile = profileName ? networkProfiles[profileName] : undefined;
+
+    const seedKey = `${config.latencySeed}|${method.toUpperCase()} ${url}`;
+    const delay = resolveDelay(rule?.latency ?? config.latency, seedKey, recordedTime) + (profile?.latencyMs ?? 0);
+
+    return {
+        delay: delay > 0 ? delay : undefined,
+        throttleKbps: profile?.throttleKbps,
+    };
+}
+
+/**
+ * Turn a latency strategy into a concrete delay (ranges pick from seedKey)
+ */
+function resolveDelay(strategy: LatencyStrategy, seedKey: string, recordedTime?: number): number {
+    if (strategy === 'recorded') {
+        return recordedTime ?? 0;
+    }
+    if (Array.isArray(strategy)) {
+        const [min, max] = strategy;
+        return Math.round(min + seededRandom(seedKey) * Math.max(0, max - min));
+    }
+    return strategy;
+}
+
+/**
+ * Reproducible value in [0, 1) for a key: mulberry32 seeded with the key's FNV-1a hash
+ */
+function seededRandom(key: string): number {
+    let seed = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        seed = Math.imul(seed ^ key.charCodeAt(i), 0x01000193);
+    }
+
+    let t = (seed + 0x6d2b79f5) | 0;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
@@ -3,7 +3,8 @@
  * Intelligent matching engine for API requests
  */
 
-import { getConfig } from '../config/mock.config';
+import { getConfig, MatchTier } from '../config/mock.config';
+import { extractGraphQLOperation, isGraphQLEndpoint } from './graphql';
 
 export interface RequestSignature {
     method: string;
@@ -11,6 +12,16 @@ export interface RequestSignature {
     normalizedUrl: string;
     queryParams: Record<string, string>;
     pathname: string;
+    body?: unknown;
+    bodyHash?: string;
+    graphql?: GraphQLSignature;
+}
+
+export interface GraphQLSignature {
+    operationName: string;
+    variablesHash: string;
+    hasVariables: boolean;
+    persistedQueryHash?: string;
 }
 
 export interface MockMetadata {
@@ -18,6 +29,8 @@ export interface MockMetadata {
     url: string;
     pathname: string;
     queryParams?: Record<string, string>;
+    requestBody?: unknown;
+    metadata?: Record<string, unknown>;
 }
 
 /**
@@ -26,7 +39,7 @@ export interface MockMetadata {
 export function normalizeUrl(url: string): string {
     try {
         // Handle relative URLs
-        const baseUrl = url.startsWith('http') ? '' : 'http://localhost';
+        const baseUrl = url.startsWith('http') ? undefined : 'http://localhost';
         const urlObj = new URL(url, baseUrl);
 
         // Sort query parameters
@@ -51,7 +64,7 @@ export function normalizeUrl(url: string): string {
  */
 export function extractPathname(url: string): string {
     try {
-        const baseUrl = url.startsWith('http') ? '' : 'http://localhost';
+        const baseUrl = url.startsWith('http') ? undefined : 'http://localhost';
         const urlObj = new URL(url, baseUrl);
         return urlObj.pathname;
     } catch {
@@ -64,7 +77,7 @@ export function extractPathname(url: string): string {
  */
 export function extractQueryParams(url: string): Record<string, string> {
     try {
-        const baseUrl = url.startsWith('http') ? '' : 'http://localhost';
+        const baseUrl = url.startsWith('http') ? undefined : 'http://localhost';
         const urlObj = new URL(url, baseUrl);
         const params: Record<string, string> = {};
         urlObj.searchParams.forEach((value, key) => {
@@ -76,25 +89,294 @@ export function extractQueryParams(url: string): Record<string, string> {
     }
 }
 
+/**
+ * Serialize a value as JSON with sorted keys and ignored fields removed
+ */
+export function canonicalizeBody(body: unknown, ignoredFields: string[] = []): string {
+    const parsed = parseBody(body);
+    if (typeof parsed === 'string') {
+        return parsed;
+    }
+    return JSON.stringify(sortKeys(parsed, ignoredFields, ''));
+}
+
+/**
+ * Hash a request body so key order and ignored fields don't change the result
+ */
+export function hashRequestBody(body: unknown): string | undefined {
+    if (body === undefined || body === null || body === '') {
+        return undefined;
+    }
+    const config = getConfig();
+    return simpleHash(canonicalizeBody(body, config.ignoredBodyFields));
+}
+
+/**
+ * Parse JSON string bodies, leaving other strings untouched
+ */
+function parseBody(body: unknown): unknown {
+    if (typeof body !== 'string') {
+        return body;
+    }
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+}
+
+/**
+ * Recursively sort object keys, dropping ignored fields
+ */
+function sortKeys(value: unknown, ignoredFields: string[], path: string): unknown {
+    if (Array.isArray(value)) {
+        return value.map(item => sortKeys(item, ignoredFields, path));
+    }
+
+    if (value && typeof value === 'object') {
+        const sorted: Record<string, unknown> = {};
+        for (const key of Object.keys(value).sort()) {
+            const fieldPath = path ? `${path}.${key}` : key;
+            if (ignoredFields.includes(key) || ignoredFields.includes(fieldPath)) {
+                continue;
+            }
+            sorted[key] = sortKeys((value as Record<string, unknown>)[key], ignoredFields, fieldPath);
+        }
+        return sorted;
+    }
+
+    return value;
+}
+
 /**
  * Create request signature for matching
  */
-export function createRequestSignature(method: string, url: string): RequestSignature {
+export function createRequestSignature(method: string, url: string, body?: unknown): RequestSignature {
+    const config = getConfig();
+    const upperMethod = method.toUpperCase();
+    const matchBody = config.matchBodyMethods.some(m => m.toUpperCase() === upperMethod);
+    const queryParams = extractQueryParams(url);
+    const graphql = isGraphQLEndpoint(url) ? createGraphQLSignature(body, queryParams) : undefined;
+
     return {
-        method: method.toUpperCase(),
+        method: upperMethod,
         url,
         normalizedUrl: normalizeUrl(url),
-        queryParams: extractQueryParams(url),
+        queryParams,
         pathname: extractPathname(url),
+        body: matchBody ? body : undefined,
+        // GraphQL requests are keyed on operation + variables instead of the raw body
+        bodyHash: matchBody && !graphql ? hashRequestBody(body) : undefined,
+        graphql,
+    };
+}
+
+/**
+ * Build the GraphQL part of a signature from the request payload
+ */
+export function createGraphQLSignature(
+    body: unknown,
+    queryParams: Record<string, string> = {}
+): GraphQLSignature | undefined {
+    const operation = extractGraphQLOperation(body, queryParams);
+    if (!operation) {
+        return undefined;
+    }
+
+    const config = getConfig();
+    let operationName = operation.operationName;
+
+    // Keep anonymous documents apart by hashing their whitespace-normalized text
+    if (operationName === 'anonymous' && operation.query) {
+        operationName += `_${simpleHash(operation.query.replace(/\s+/g, ' ').trim())}`;
+    }
+
+    return {
+        operationName,
+        variablesHash: simpleHash(canonicalizeBody(operation.variables, config.ignoredBodyFields)),
+        hasVariables: Object.keys(operation.variables).length > 0,
+        persistedQueryHash: operation.persistedQueryHash,
     };
 }
 
+/** Route templates known to replay, in ':param' form */
+const routeTemplates = new Set<string>();
+
+/** Routes from a generator's route index, whose mocks answer any query or body */
+const generatedRoutes = new Set<string>();
+
+/**
+ * Convert '{id}' placeholders to the internal ':id' form
+ */
+export function normalizeRouteTemplate(template: string): string {
+    return template.replace(/\{([^}]+)\}/g, ':$1');
+}
+
+/**
+ * Make route templates available to replay lookups
+ */
+export function registerRouteTemplates(templates: string[]): void {
+    for (const template of templates) {
+        routeTemplates.add(normalizeRouteTemplate(template));
+    }
+}
+
+/**
+ * Register the routes of a generator's route index (also made available as route templates)
+ */
+export function registerGeneratedRoutes(templates: string[]): void {
+    registerRouteTemplates(templates);
+    for (const template of templates) {
+        generatedRoutes.add(normalizeRouteTemplate(template));
+    }
+}
+
+/**
+ * Check if a mock was generated (e.g. from OpenAPI) rather than recorded, so it
+ * may answer any query or body on its route
+ */
+export function isGeneratedMock(mock: MockMetadata): boolean {
+    return mock.metadata?.source === 'openapi' || mock.metadata?.generated === true || generatedRoutes.has(mock.pathname);
+}
+
+/**
+ * Get the registered route templates
+ */
+export function getRouteTemplates(): string[] {
+    return [...routeTemplates];
+}
+
+/**
+ * Match a pathname against a route template, returning the captured params
+ */
+export function matchRouteTemplate(template: string, pathname: string): Record<string, string> | null {
+    const templateSegments = normalizeRouteTemplate(template).split('/').filter(Boolean);
+    const pathSegments = pathname.split('/').filter(Boolean);
+
+    if (templateSegments.length !== pathSegments.length) {
+        return null;
+    }
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < templateSegments.length; i++) {
+        const segment = templateSegments[i];
+        if (segment.startsWith(':')) {
+            params[segment.substring(1)] = decodeURIComponent(pathSegments[i]);
+        } else if (segment !== pathSegments[i]) {
+            return null;
+        }
+    }
+    return params;
+}
+
+/**
+ * Find the templates covering a pathname, most specific first
+ * (fewer params win, so /users/me beats /users/:id)
+ */
+export function findRouteTemplates(
+    pathname: string,
+    templates: string[] = getRouteTemplates()
+): { template: string; params: Record<string, string> }[] {
+    return templates
+        .map(template => ({ template: normalizeRouteTemplate(template), params: matchRouteTemplate(template, pathname) }))
+        .filter((match): match is { template: string; params: Record<string, string> } => match.params !== null)
+        .sort((a, b) => Object.keys(a.params).length - Object.keys(b.params).length);
+}
+
+/**
+ * Move a signature onto a route template, keeping its query params and body
+ */
+export function createTemplatedSignature(signature: RequestSignature, template: string): RequestSignature {
+    const pathname = normalizeRouteTemplate(template);
+    let url: string;
+    try {
+        // Rebuilt from its parts, so only the path changes (never a match inside the host)
+        const absolute = signature.url.startsWith('http');
+        const urlObj = new URL(signature.url, absolute ? undefined : 'http://localhost');
+        url = `${absolute ? urlObj.origin : ''}${pathname}${urlObj.search}`;
+    } catch {
+        const query = signature.url.split('?')[1];
+        url = query ? `${pathname}?${query}` : pathname;
+    }
+
+    return { ...signature, url, normalizedUrl: normalizeUrl(url), pathname };
+}
+
+/**
+ * Signatures to try after the exact one misses: the request moved onto each
+ * matching route template, query and body kept
+ */
+export function getFallbackSignatures(signature: RequestSignature): RequestSignature[] {
+    if (signature.graphql) {
+        return [];
+    }
+
+    const candidates = findRouteTemplates(signature.pathname)
+        .map(({ template }) => createTemplatedSignature(signature, template));
+    return dedupeSignatures(candidates, [signature]);
+}
+
+/**
+ * Query/body-less signatures of the request's route templates and path
+ * Only generated mocks (see isGeneratedMock) may answer through these
+ */
+export function getGenericSignatures(signature: RequestSignature): RequestSignature[] {
+    if (signature.graphql) {
+        return [];
+    }
+
+    const candidates = findRouteTemplates(signature.pathname)
+        .map(({ template }) => createGenericSignature(signature.method, template))
+        .concat(createGenericSignature(signature.method, signature.pathname));
+    return dedupeSignatures(candidates, [signature, ...getFallbackSignatures(signature)]);
+}
+
+/**
+ * Drop candidates stored at the same path as an earlier one or an excluded signature
+ */
+function dedupeSignatures(candidates: RequestSignature[], excluded: RequestSignature[]): RequestSignature[] {
+    const seen = new Set(excluded.map(generateMockRelativePath));
+    return candidates.filter(candidate => {
+        const relativePath = generateMockRelativePath(candidate);
+        if (seen.has(relativePath)) {
+            return false;
+        }
+        seen.add(relativePath);
+        return true;
+    });
+}
+
+/**
+ * Signature without query params or body, used for templated and generated mocks
+ */
+export function createGenericSignature(method: string, pathname: string): RequestSignature {
+    return {
+        method: method.toUpperCase(),
+        url: pathname,
+        normalizedUrl: pathname,
+        queryParams: {},
+        pathname,
+    };
+}
+
+/**
+ * Stable identity of a request signature, independent of the file layout
+ */
+export function getSignatureKey(signature: RequestSignature): string {
+    const key = `${signature.method}:${signature.normalizedUrl}`;
+    if (signature.graphql) {
+        return `${key}#${signature.graphql.operationName}:${signature.graphql.variablesHash}`;
+    }
+    return signature.bodyHash ? `${key}#${signature.bodyHash}` : key;
+}
+
 /**
  * Generate a unique filename for a mock based on request signature
  */
 export function generateMockFilename(signature: RequestSignature): string {
     // Clean pathname for filesystem
     let cleanPath = signature.pathname
+        .replace(/(^|\/):([a-zA-Z_][a-zA-Z0-9_]*)/g, '$1by-$2') // Route params (/users/:id -> users_by-id)
         .replace(/^\//, '') // Remove leading slash
         .replace(/\//g, '_') // Replace slashes with underscores
         .replace(/[^a-zA-Z0-9_-]/g, '') // Remove special characters
@@ -112,31 +394,54 @@ export function generateMockFilename(signature: RequestSignature): string {
         cleanPath += `_${hash}`;
     }
 
+    // Add body hash so different payloads get their own file
+    if (signature.bodyHash) {
+        cleanPath += `_b${signature.bodyHash}`;
+    }
+
     return `${signature.method.toLowerCase()}_${cleanPath}.json`;
 }
 
 /**
  * Generate mock file path
+ * An optional namespace (e.g. a spec or test scope) is inserted below the mock dir
  */
-export function generateMockPath(signature: RequestSignature): string {
+export function generateMockPath(signature: RequestSignature, namespace?: string): string {
     const config = getConfig();
+    const root = namespace ? `${config.mockDir}/${namespace}` : config.mockDir;
+
+    return `${root}/${generateMockRelativePath(signature)}`;
+}
+
+/**
+ * Generate mock file path relative to the mock dir
+ */
+export function generateMockRelativePath(signature: RequestSignature): string {
+    // GraphQL operations are stored per operation under graphql/
+    if (signature.graphql) {
+        const { operationName, variablesHash, hasVariables } = signature.graphql;
+        const cleanName = operationName.replace(/[^a-zA-Z0-9_-]/g, '');
+        const suffix = hasVariables ? `_${variablesHash}` : '';
+        return `graphql/${cleanName}${suffix}.json`;
+    }
+
     const filename = generateMockFilename(signature);
 
     // Organize by pathname segments
     const pathSegments = signature.pathname
         .split('/')
-        .filter(s => s && !s.match(/^\d+$/)) // Filter out IDs
+        .filter(s => s && !s.match(/^\d+$/) && !s.startsWith(':')) // Filter out IDs and route params
         .slice(0, 2); // Take first 2 segments for organization
 
     const subDir = pathSegments.join('/') || 'api';
 
-    return `${config.mockDir}/${subDir}/${filename}`;
+    return `${subDir}/${filename}`;
 }
 
 /**
- * Simple hash function for query params
+ * Simple hash function for query params and bodies
  */
-function simpleHash(str: string): string {
+export function simpleHash(str: string): string {
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
         const char = str.charCodeAt(i);
@@ -170,31 +475,181 @@ export function shouldRecordUrl(url: string): boolean {
     return true;
 }
 
+export interface MatchResult {
+    /** Loosest tier the mock satisfies (null when it cannot serve the request) */
+    tier: MatchTier | null;
+
+    /** Share of query params and body fields that agree (0-1) */
+    score: number;
+
+    /** Why the match is looser than exact */
+    reasons: string[];
+}
+
+/** Tiers from strictest to loosest */
+const TIER_ORDER: MatchTier[] = ['exact', 'volatile', 'subset', 'fuzzy'];
+
 /**
  * Match a request against stored mock metadata
+ * Scores query params and body fields and reports the loosest tier needed
  */
 export function matchRequest(
     request: RequestSignature,
     mock: MockMetadata
-): boolean {
+): MatchResult {
+    const noMatch = (reason: string): MatchResult => ({ tier: null, score: 0, reasons: [reason] });
+
     // Method must match exactly
     if (request.method.toUpperCase() !== mock.method.toUpperCase()) {
-        return false;
+        return noMatch('method differs');
     }
 
-    // Pathname must match
-    if (request.pathname !== mock.pathname) {
-        return false;
+    // Pathname must match (templated mocks match their whole route family)
+    if (request.pathname !== mock.pathname && !matchRouteTemplate(mock.pathname, request.pathname)) {
+        return noMatch('path differs');
     }
 
-    // Query params should match (if specified in mock)
-    if (mock.queryParams && Object.keys(mock.queryParams).length > 0) {
-        for (const [key, value] of Object.entries(mock.queryParams)) {
-            if (request.queryParams[key] !== value) {
-                return false;
-            }
+    // GraphQL operations match on operation name, persisted hash and variables
+    if (request.graphql) {
+        const mockOperation = createGraphQLSignature(mock.requestBody, mock.queryParams);
+        if (!mockOperation || mockOperation.operationName !== request.graphql.operationName) {
+            return noMatch('operation differs');
+        }
+        if (request.graphql.persistedQueryHash && mockOperation.persistedQueryHash
+            && request.graphql.persistedQueryHash !== mockOperation.persistedQueryHash) {
+            return noMatch('persisted query differs');
         }
+        return mockOperation.variablesHash === request.graphql.variablesHash
+            ? { tier: 'exact', score: 1, reasons: [] }
+            : noMatch('variables differ');
     }
 
-    return true;
+    const query = compareQuery(request.queryParams, mock.queryParams || {});
+
+    // Body only counts when it is part of the signature
+    const body = request.bodyHash && hashRequestBody(mock.requestBody) !== request.bodyHash
+        ? compareEntries(flattenBody(request.body), flattenBody(mock.requestBody), 'body fields')
+        : { tier: 'exact' as MatchTier, matching: 0, total: 0, reasons: [] };
+
+    const total = query.total + body.total;
+    return {
+        tier: TIER_ORDER[Math.max(TIER_ORDER.indexOf(query.tier), TIER_ORDER.indexOf(body.tier))],
+        score: total === 0 ? 1 : (query.matching + body.matching) / total,
+        reasons: [...query.reasons, ...body.reasons],
+    };
+}
+
+/**
+ * Rank of a tier, lower is stricter
+ */
+export function getTierRank(tier: MatchTier): number {
+    return TIER_ORDER.indexOf(tier);
+}
+
+/**
+ * Where every recording of a request's endpoint lives: directories relative to
+ * the mock dir and filename prefixes (query and body hashes are suffixes)
+ */
+export function getMockFamily(signature: RequestSignature): { dirs: string[]; prefixes: string[] } {
+    const paths = [signature.pathname, ...findRouteTemplates(signature.pathname).map(route => route.template)]
+        .map(pathname => generateMockRelativePath(createGenericSignature(signature.method, pathname)));
+
+    return {
+        dirs: [...new Set(paths.map(filePath => filePath.substring(0, filePath.lastIndexOf('/'))))],
+        prefixes: [...new Set(paths.map(filePath => filePath.substring(filePath.lastIndexOf('/') + 1).replace(/\.json$/, '')))],
+    };
+}
+
+/**
+ * Score candidate recordings and keep those the configured tiers accept, best first
+ * (generated mocks answer their whole route through the generic lookup instead)
+ */
+export function rankCandidates<T extends { mock: MockMetadata }>(
+    signature: RequestSignature,
+    candidates: T[]
+): (T & { match: MatchResult })[] {
+    const config = getConfig();
+
+    return candidates
+        .filter(candidate => candidate.mock?.method && !isGeneratedMock(candidate.mock))
+        .map(candidate => ({ ...candidate, match: matchRequest(signature, candidate.mock) }))
+        .filter(({ match }) => match.tier !== null && config.matchTiers.includes(match.tier)
+            && (match.tier !== 'fuzzy' || match.score >= config.minMatchScore))
+        .sort((a, b) => getTierRank(a.match.tier!) - getTierRank(b.match.tier!) || b.match.score - a.match.score);
+}
+
+/** Outcome of comparing one part (query or body) of a request */
+interface PartComparison {
+    tier: MatchTier;
+    matching: number;
+    total: number;
+    reasons: string[];
+}
+
+/**
+ * Compare query params, treating configured volatile params as noise
+ */
+function compareQuery(requestParams: Record<string, string>, mockParams: Record<string, string>): PartComparison {
+    const volatile = getConfig().volatileParams;
+    const differing = [...new Set([...Object.keys(requestParams), ...Object.keys(mockParams)])]
+        .filter(key => requestParams[key] !== mockParams[key]);
+
+    if (differing.length > 0 && differing.every(key => volatile.includes(key))) {
+        return { tier: 'volatile', matching: 0, total: 0, reasons: [`ignored volatile params: ${differing.join(', ')}`] };
+    }
+
+    const strip = (params: Record<string, string>) => new Map(
+        Object.entries(params).filter(([key]) => !volatile.includes(key))
+    );
+    return compareEntries(strip(requestParams), strip(mockParams), 'params');
+}
+
+/**
+ * Compare flattened key/value entries: exact, mock entries a subset of the request's, or partial
+ */
+function compareEntries(requestEntries: Map<string, string>, mockEntries: Map<string, string>, label: string): PartComparison {
+    const keys = new Set([...requestEntries.keys(), ...mockEntries.keys()]);
+    const matching = [...keys].filter(key => requestEntries.get(key) === mockEntries.get(key)).length;
+    const comparison = { matching, total: keys.size };
+
+    if (matching === keys.size) {
+        return { ...comparison, tier: 'exact', reasons: [] };
+    }
+
+    const extra = [...requestEntries.keys()].filter(key => !mockEntries.has(key));
+    if ([...mockEntries].every(([key, value]) => requestEntries.get(key) === value)) {
+        return { ...comparison, tier: 'subset', reasons: [`request adds ${label}: ${extra.join(', ')}`] };
+    }
+
+    const differing = [...keys].filter(key => requestEntries.get(key) !== mockEntries.get(key));
+    return { ...comparison, tier: 'fuzzy', reasons: [`${label} differ: ${differing.join(', ')}`] };
+}
+
+/**
+ * Flatten a request body into dot-path leaves (ignored fields removed)
+ */
+function flattenBody(body: unknown): Map<string, string> {
+    const leaves = new Map<string, string>();
+    const canonical = canonicalizeBody(body ?? '', getConfig().ignoredBodyFields);
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(canonical);
+    } catch {
+        parsed = canonical;
+    }
+
+    const walk = (value: unknown, path: string) => {
+        if (value && typeof value === 'object') {
+            for (const [key, child] of Object.entries(value)) {
+                walk(child, path ? `${path}.${key}` : key);
+            }
+        } else {
+            leaves.set(path || '$', JSON.stringify(value));
+        }
+    };
+    if (parsed !== '') {
+        walk(parsed, '');
+    }
+    return leaves;
 }
@@ -1,10 +1,28 @@
 /**
  * Mock Storage
- * File-based persistence for recorded mocks
+ * File-based persistence for recorded mocks (per-endpoint files, blobs or per-spec cassettes)
  */
 
-import { getConfig } from '../config/mock.config';
-import { createRequestSignature, generateMockPath, RequestSignature } from './matcher';
+import { getConfig, MockScope } from '../config/mock.config';
+import {
+    createRequestSignature,
+    createTemplatedSignature,
+    findRouteTemplates,
+    generateMockPath,
+    generateMockRelativePath,
+    getFallbackSignatures,
+    getGenericSignatures,
+    getMockFamily,
+    getSignatureKey,
+    isGeneratedMock,
+    matchRequest,
+    MatchResult,
+    rankCandidates,
+    registerGeneratedRoutes,
+    RequestSignature
+} from './matcher';
+import { templateResponse } from './templating';
+import { createStoredSignature, redactBody, redactRequest } from './redaction';
 
 export interface RecordedMock {
     /** HTTP method */
@@ -48,6 +66,45 @@ export interface RecordedMock {
 
     /** Custom metadata */
     metadata?: Record<string, unknown>;
+
+    /** Ordered responses when the endpoint was hit more than once (first entry mirrors the fields above) */
+    sequence?: RecordedResponse[];
+}
+
+/**
+ * A single response within a recorded sequence
+ */
+export interface RecordedResponse {
+    status: number;
+    statusMessage?: string;
+    responseHeaders?: Record<string, string | string[]>;
+    response: unknown;
+    responseTime?: number;
+    recordedAt: string;
+}
+
+/** Route index written next to the mocks by generators (e.g. OpenAPI) */
+export const ROUTE_INDEX_FILE = '.routes.json';
+
+/** Directory under mockDir holding content-addressed response bodies (blobs storage) */
+export const BLOB_DIR = '.blobs';
+
+/** Directory under mockDir holding one cassette per spec (cassette storage) */
+export const CASSETTE_DIR = '__cassettes__';
+
+/** A spec's interactions in recorded order */
+export interface Cassette {
+    spec: string;
+    interactions: RecordedMock[];
+}
+
+/** Details of a recording made elsewhere (e.g. imported from a HAR file) */
+export interface SaveMockOptions {
+    /** When the response was recorded (default: now) */
+    recordedAt?: string;
+
+    /** Metadata stored with a new mock */
+    metadata?: Record<string, unknown>;
 }
 
 /** In-memory mock cache for replay mode */
@@ -56,6 +113,21 @@ const mockCache = new Map<string, RecordedMock>();
 /** List of recorded mocks in current session */
 const sessionMocks: string[] = [];
 
+/** Mocks written during the current test, keyed by file path, so repeat calls append */
+const sessionRecordings = new Map<string, RecordedMock>();
+
+/** Mock files served during replay (cache hits and file reads) */
+const servedMocks = new Set<string>();
+
+/** Next sequence index to serve per mock (keyed by its source) during replay */
+const sequencePositions = new Map<string, number>();
+
+/** Active mock namespace scope */
+let mockScope: MockScope = getConfig().mockScope;
+
+/** Cassette of the running spec, loaded on first use */
+let activeCassette: { filePath: string; cassette: Cassette } | null = null;
+
 /**
  * Save a mock to the filesystem
  */
@@ -72,51 +144,453 @@ export function saveMock(
         headers?: Record<string, string | string[]>;
         body: unknown;
     },
-    responseTime?: number
+    responseTime?: number,
+    options: SaveMockOptions = {}
 ): Cypress.Chainable<string> {
-    const signature = createRequestSignature(request.method, request.url);
-    const filePath = generateMockPath(signature);
-
-    const mock: RecordedMock = {
-        method: signature.method,
-        url: request.url,
-        pathname: signature.pathname,
-        queryParams: signature.queryParams,
+    // The request side is redacted too, and the signature built from what is stored
+    const storedRequest = redactRequest(request);
+    const exactSignature = createStoredSignature(request.method, request.url, request.body);
+
+    // Paths covered by a configured route template are stored once under the template
+    const [route] = findRouteTemplates(exactSignature.pathname, getConfig().routeTemplates);
+    const signature = route ? createTemplatedSignature(exactSignature, route.template) : exactSignature;
+    const filePath = getMockPath(signature);
+
+    // Another member of the route family was already recorded this test; keep the first
+    const existing = sessionRecordings.get(filePath);
+    if (route && existing && existing.url !== storedRequest.url) {
+        log('debug', `⏭️ ${request.method} ${exactSignature.pathname} already covered by ${route.template}`);
+        return cy.wrap(filePath, { log: false });
+    }
+
+    // Redact PII, then swap configured volatile fields for generator tokens
+    const redactedBody = redactBody(request.url, response.body);
+    const templated = templateResponse(request.url, redactedBody, response.headers);
+
+    const entry: RecordedResponse = {
         status: response.statusCode,
         statusMessage: response.statusMessage,
-        requestHeaders: request.headers,
-        responseHeaders: response.headers,
-        requestBody: request.body,
-        response: response.body,
+        responseHeaders: templated.headers,
+        response: templated.body,
         responseTime,
-        recordedAt: new Date().toISOString(),
+        recordedAt: options.recordedAt ?? new Date().toISOString(),
     };
 
-    return cy.task('writeMock', { filePath, data: mock }, { log: false }).then(() => {
-        sessionMocks.push(filePath);
-        log('info', `📝 Recorded mock: ${signature.method} ${signature.pathname} -> ${filePath}`);
+    // Repeat calls within the same test extend the sequence instead of overwriting
+    const mock: RecordedMock = existing
+        ? { ...existing, sequence: [...getResponses(existing), entry] }
+        : {
+            method: signature.method,
+            url: storedRequest.url,
+            pathname: signature.pathname,
+            queryParams: signature.queryParams,
+            status: entry.status,
+            statusMessage: entry.statusMessage,
+            requestHeaders: storedRequest.headers,
+            responseHeaders: entry.responseHeaders,
+            requestBody: storedRequest.body,
+            response: entry.response,
+            responseTime: entry.responseTime,
+            recordedAt: entry.recordedAt,
+            version: getConfig().mockVersion,
+            metadata: options.metadata,
+        };
+
+    sessionRecordings.set(filePath, mock);
+
+    if (getConfig().storageFormat === 'cassette') {
+        return saveToCassette(signature, mock);
+    }
+
+    const blobDir = getConfig().storageFormat === 'blobs' ? getBlobDir() : undefined;
+
+    return cy.task('writeMock', { filePath, data: mock, blobDir }, { log: false }).then(() => {
+        if (!sessionMocks.includes(filePath)) {
+            sessionMocks.push(filePath);
+        }
+        const position = mock.sequence ? ` (#${mock.sequence.length})` : '';
+        log('info', `📝 Recorded mock${position}: ${signature.method} ${signature.pathname} -> ${filePath}`);
         return filePath;
     });
 }
 
+/**
+ * Get all responses of a mock in recorded order
+ */
+export function getResponses(mock: RecordedMock): RecordedResponse[] {
+    if (mock.sequence && mock.sequence.length > 0) {
+        return mock.sequence;
+    }
+    return [{
+        status: mock.status,
+        statusMessage: mock.statusMessage,
+        responseHeaders: mock.responseHeaders,
+        response: mock.response,
+        responseTime: mock.responseTime,
+        recordedAt: mock.recordedAt,
+    }];
+}
+
+/**
+ * Pick the next response to replay from a mock, tracking the position per mock source
+ * (not per request) so polls with cache-busters still walk the sequence
+ * Returns null when the sequence is exhausted and the policy is 'fail'
+ */
+export function nextResponse(source: string, mock: RecordedMock): RecordedResponse | null {
+    const config = getConfig();
+    const responses = getResponses(mock);
+    const position = sequencePositions.get(source) ?? 0;
+    sequencePositions.set(source, position + 1);
+
+    if (position < responses.length) {
+        return responses[position];
+    }
+
+    switch (config.sequenceExhausted) {
+        case 'loop':
+            return responses[position % responses.length];
+        case 'fail':
+            return null;
+        default:
+            return responses[responses.length - 1];
+    }
+}
+
+/**
+ * Start a fresh recording/replay sequence (called when mocking is enabled for a test)
+ */
+export function resetSequences(): void {
+    sessionRecordings.clear();
+    sequencePositions.clear();
+}
+
+/**
+ * Set the namespace scope for recording and lookup
+ */
+export function setMockScope(scope: MockScope): void {
+    mockScope = scope;
+}
+
+/**
+ * Get the active namespace scope
+ */
+export function getMockScope(): MockScope {
+    return mockScope;
+}
+
+/**
+ * Namespaces to search, most specific first ('' is the global tree)
+ */
+export function getScopeNamespaces(): string[] {
+    if (mockScope === 'global') {
+        return [''];
+    }
+
+    const specNamespace = `__specs__/${slugify(Cypress.spec.name.replace(/\.cy\.[jt]sx?$/, ''))}`;
+    if (mockScope === 'spec' || !Cypress.currentTest) {
+        return [specNamespace, ''];
+    }
+
+    const testNamespace = `${specNamespace}/__tests__/${slugify(Cypress.currentTest.titlePath.join(' '))}`;
+    return [testNamespace, specNamespace, ''];
+}
+
+/**
+ * Path new recordings are written to for the active scope
+ */
+export function getMockPath(signature: RequestSignature): string {
+    return generateMockPath(signature, getScopeNamespaces()[0] || undefined);
+}
+
+/**
+ * Blob directory of the mock store (read even when new recordings are plain files)
+ */
+export function getBlobDir(): string {
+    return `${getConfig().mockDir}/${BLOB_DIR}`;
+}
+
+/** A place a mock may live: a signature within a namespace */
+interface MockCandidate {
+    signature: RequestSignature;
+    namespace: string;
+    /** Query/body-less location only a generated mock may answer from */
+    generic?: boolean;
+}
+
+/** A mock chosen for a request and how it matched */
+export interface MockLookup {
+    mock: RecordedMock;
+    match: MatchResult;
+    /** Where the mock was read from (file path, or cassette path and interaction index) */
+    source: string;
+}
+
+/** Match of a mock stored for the request's exact signature (or its route template) */
+const EXACT_MATCH: MatchResult = { tier: 'exact', score: 1, reasons: [] };
+
+/** Match of a generated mock answering through its bare route */
+const GENERATED_MATCH: MatchResult = { tier: 'exact', score: 1, reasons: ['generated mock'] };
+
 /**
  * Load a mock from the filesystem
+ * See findMock for the lookup order
  */
 export function loadMock(signature: RequestSignature): Cypress.Chainable<RecordedMock | null> {
-    const filePath = generateMockPath(signature);
-    const cacheKey = `${signature.method}:${signature.normalizedUrl}`;
+    return findMock(signature).then(lookup => cy.wrap<RecordedMock | null>(lookup?.mock ?? null, { log: false }));
+}
 
-    // Check cache first
-    if (mockCache.has(cacheKey)) {
-        return cy.wrap(mockCache.get(cacheKey)!, { log: false });
+/**
+ * Find the mock for a request and how it matched
+ * Scoped lookups fall back from test to spec to global; each tries the exact
+ * and route-template mocks, then the closest recording of the endpoint within
+ * the allowed match tiers, then generated generic (query/body-less) mocks
+ */
+export function findMock(signature: RequestSignature): Cypress.Chainable<MockLookup | null> {
+    if (getConfig().storageFormat === 'cassette') {
+        return findInCassette(signature);
     }
 
-    return cy.task('readMock', { filePath }, { log: false }).then((mock: RecordedMock | null) => {
-        if (mock) {
-            mockCache.set(cacheKey, mock);
-            log('debug', `📂 Loaded mock from cache: ${filePath}`);
+    const namespaces = getScopeNamespaces();
+    const toCandidates = (signatures: RequestSignature[], generic: boolean): MockCandidate[] => signatures.flatMap(
+        candidate => namespaces.map(namespace => ({ signature: candidate, namespace, generic }))
+    );
+    const exact = toCandidates([signature, ...getFallbackSignatures(signature)], false);
+    const generic = toCandidates(getGenericSignatures(signature), true);
+
+    return readCandidates(exact).then((lookup) => {
+        return lookup ? cy.wrap<MockLookup | null>(lookup, { log: false }) : findClosestMock(signature, namespaces);
+    }).then((lookup) => {
+        return lookup ? cy.wrap<MockLookup | null>(lookup, { log: false }) : readCandidates(generic);
+    });
+}
+
+/**
+ * Serve the first candidate from the cache, otherwise read them in order
+ * Only exact and generated hits are cached, so near-misses are re-scored (and reported) every time
+ */
+function readCandidates(candidates: MockCandidate[]): Cypress.Chainable<MockLookup | null> {
+    for (const { signature, namespace, generic } of candidates) {
+        const cached = mockCache.get(getCacheKey(signature, namespace));
+        if (cached && (!generic || isGeneratedMock(cached))) {
+            const filePath = generateMockPath(signature, namespace || undefined);
+            servedMocks.add(filePath);
+            return cy.wrap<MockLookup | null>({ mock: cached, match: generic ? GENERATED_MATCH : EXACT_MATCH, source: filePath }, { log: false });
         }
-        return mock;
+    }
+    return readCandidateMock(candidates, 0);
+}
+
+/**
+ * Read the mock for one candidate, moving on to the next if it is missing
+ */
+function readCandidateMock(
+    candidates: MockCandidate[],
+    index: number
+): Cypress.Chainable<MockLookup | null> {
+    if (index >= candidates.length) {
+        return cy.wrap<MockLookup | null>(null, { log: false });
+    }
+
+    const { signature, namespace, generic } = candidates[index];
+    const filePath = generateMockPath(signature, namespace || undefined);
+
+    return cy.task('readMock', { filePath, blobDir: getBlobDir() }, { log: false }).then((result) => {
+        const mock = result as RecordedMock | null;
+
+        // Guard against hash collisions by comparing the stored request body
+        if (mock && matchRequest(signature, mock).tier !== 'exact') {
+            log('warn', `⚠️ Mock at ${filePath} does not match request body, ignoring`);
+        } else if (mock && generic && !isGeneratedMock(mock)) {
+            // A recording of the bare path only answers requests without query or body
+            log('debug', `⏭️ ${filePath} is a recording, not a generated mock; not serving it for other variants`);
+        } else if (mock) {
+            warnOnVersionMismatch(mock, filePath);
+            servedMocks.add(filePath);
+            mockCache.set(getCacheKey(signature, namespace), mock);
+            log('debug', `📂 Loaded ${generic ? 'generated mock' : 'mock (exact match)'}: ${filePath}`);
+            return cy.wrap<MockLookup | null>({ mock, match: generic ? GENERATED_MATCH : EXACT_MATCH, source: filePath }, { log: false });
+        }
+
+        return readCandidateMock(candidates, index + 1);
+    });
+}
+
+/**
+ * Score the endpoint's other recordings and pick the best one in an allowed tier
+ * (volatile params ignored, then request a superset of the mock, then best score)
+ */
+function findClosestMock(signature: RequestSignature, namespaces: string[]): Cypress.Chainable<MockLookup | null> {
+    const config = getConfig();
+    if (signature.graphql || config.matchTiers.every(tier => tier === 'exact')) {
+        return cy.wrap<MockLookup | null>(null, { log: false });
+    }
+
+    const family = getMockFamily(signature);
+    const dirPaths = namespaces.flatMap(namespace => family.dirs.map(dir => {
+        return namespace ? `${config.mockDir}/${namespace}/${dir}` : `${config.mockDir}/${dir}`;
+    }));
+
+    return cy.task('readMockFamily', { dirPaths, prefixes: family.prefixes, blobDir: getBlobDir() }, { log: false }).then((result) => {
+        const ranked = rankCandidates(signature, result as { filePath: string; mock: RecordedMock }[]);
+
+        if (ranked.length === 0) {
+            log('debug', `🔍 No close match for ${signature.method} ${signature.pathname}`);
+            return cy.wrap<MockLookup | null>(null, { log: false });
+        }
+
+        const { filePath, mock, match } = ranked[0];
+        logCloseMatch(signature, filePath, match);
+
+        warnOnVersionMismatch(mock, filePath);
+        servedMocks.add(filePath);
+        return cy.wrap<MockLookup | null>({ mock, match, source: filePath }, { log: false });
+    });
+}
+
+/**
+ * Log a non-exact match (fuzzy ones as warnings)
+ */
+function logCloseMatch(signature: RequestSignature, source: string, match: MatchResult): void {
+    const message = `${match.tier} match (score ${match.score.toFixed(2)}): ${signature.method} ${signature.pathname} -> ${source} (${match.reasons.join('; ')})`;
+    if (match.tier === 'fuzzy') {
+        log('warn', `⚠️ ${message}`);
+    } else {
+        log('info', `🎯 ${message}`);
+    }
+}
+
+/**
+ * Cassette file of the running spec, mirroring its path so same-named specs
+ * in different folders get their own cassette
+ */
+export function getCassettePath(): string {
+    const config = getConfig();
+    const name = Cypress.spec.relative
+        .replace(/\.cy\.[jt]sx?$/, '')
+        .split(/[\\/]/)
+        .map(slugify)
+        .join('/');
+    return `${config.mockDir}/${CASSETTE_DIR}/${name}.${config.cassetteFormat === 'json' ? 'json' : 'yaml'}`;
+}
+
+/**
+ * Interactions of the running spec's cassette
+ */
+export function getCassetteInteractions(): Cypress.Chainable<RecordedMock[]> {
+    return loadCassette().then(cassette => [...cassette.interactions]);
+}
+
+/**
+ * Load the running spec's cassette once, starting an empty one if it doesn't exist yet
+ */
+function loadCassette(): Cypress.Chainable<Cassette> {
+    const filePath = getCassettePath();
+    if (activeCassette?.filePath === filePath) {
+        return cy.wrap(activeCassette.cassette, { log: false });
+    }
+
+    return cy.task('readCassette', { filePath }, { log: false }).then((result) => {
+        const stored = result as Cassette | null;
+        if (stored?.spec && stored.spec !== Cypress.spec.relative) {
+            throw new Error(`Cassette ${filePath} was recorded by ${stored.spec}, not ${Cypress.spec.relative}. Move or re-record it.`);
+        }
+        if (mockScope === 'test') {
+            log('warn', `⚠️ Cassettes are per spec: mockScope 'test' is ignored and ${filePath} is shared by all tests in the spec`);
+        }
+        const cassette: Cassette = { spec: Cypress.spec.relative, interactions: stored?.interactions ?? [] };
+
+        activeCassette = { filePath, cassette };
+        log('debug', `📼 Loaded cassette ${filePath} (${cassette.interactions.length} interactions)`);
+        return cassette;
+    }) as Cypress.Chainable<Cassette>;
+}
+
+/**
+ * Put a recording into the spec's cassette (replacing an earlier recording of the
+ * same request in place, otherwise appending) and write the cassette
+ */
+function saveToCassette(signature: RequestSignature, mock: RecordedMock): Cypress.Chainable<string> {
+    return loadCassette().then((cassette) => {
+        const filePath = getCassettePath();
+        const index = cassette.interactions.findIndex(entry => isSameInteraction(signature, entry));
+        if (index === -1) {
+            cassette.interactions.push(mock);
+        } else {
+            cassette.interactions[index] = mock;
+        }
+
+        return cy.task('writeCassette', { filePath, data: cassette }, { log: false }).then(() => {
+            if (!sessionMocks.includes(filePath)) {
+                sessionMocks.push(filePath);
+            }
+            const position = mock.sequence ? ` (#${mock.sequence.length})` : '';
+            log('info', `📼 Recorded interaction${position}: ${signature.method} ${signature.pathname} -> ${filePath}`);
+            return filePath;
+        });
+    });
+}
+
+/**
+ * Find a request in the spec's cassette: exact and route-template interactions,
+ * then the closest one within the allowed match tiers, then generated generic ones
+ */
+function findInCassette(signature: RequestSignature): Cypress.Chainable<MockLookup | null> {
+    return loadCassette().then((cassette) => {
+        const filePath = getCassettePath();
+        const serve = (mock: RecordedMock, match: MatchResult): MockLookup => {
+            warnOnVersionMismatch(mock, filePath);
+            servedMocks.add(filePath);
+            return { mock, match, source: `${filePath}#${cassette.interactions.indexOf(mock)}` };
+        };
+
+        for (const candidate of [signature, ...getFallbackSignatures(signature)]) {
+            const mock = cassette.interactions.find(entry => isSameInteraction(candidate, entry));
+            if (mock) {
+                log('debug', `📼 Loaded interaction (exact match): ${candidate.method} ${candidate.pathname} <- ${filePath}`);
+                return serve(mock, EXACT_MATCH);
+            }
+        }
+
+        const [closest] = signature.graphql ? [] : rankCandidates(signature, cassette.interactions.map(mock => ({ mock })));
+        if (closest) {
+            logCloseMatch(signature, filePath, closest.match);
+            return serve(closest.mock, closest.match);
+        }
+
+        for (const candidate of getGenericSignatures(signature)) {
+            const mock = cassette.interactions.find(entry => isSameInteraction(candidate, entry) && isGeneratedMock(entry));
+            if (mock) {
+                log('debug', `📼 Loaded generated interaction: ${candidate.method} ${candidate.pathname} <- ${filePath}`);
+                return serve(mock, GENERATED_MATCH);
+            }
+        }
+
+        log('debug', `🔍 No interaction for ${signature.method} ${signature.pathname} in ${filePath}`);
+        return null;
+    }) as Cypress.Chainable<MockLookup | null>;
+}
+
+/**
+ * Check if a cassette entry is the recording of this exact signature
+ */
+function isSameInteraction(signature: RequestSignature, entry: RecordedMock): boolean {
+    return entry.pathname === signature.pathname && matchRequest(signature, entry).tier === 'exact';
+}
+
+/**
+ * Register route templates from the generated route index (mockDir/.routes.json)
+ */
+export function loadRouteIndex(): Cypress.Chainable<string[]> {
+    const config = getConfig();
+    const filePath = `${config.mockDir}/${ROUTE_INDEX_FILE}`;
+
+    return cy.task('readMock', { filePath }, { log: false }).then((result) => {
+        const templates = (result as { templates?: string[] } | null)?.templates ?? [];
+        registerGeneratedRoutes(templates);
+        if (templates.length > 0) {
+            log('debug', `🧭 Registered ${templates.length} route templates`);
+        }
+        return templates;
     });
 }
 
@@ -124,7 +598,11 @@ export function loadMock(signature: RequestSignature): Cypress.Chainable<Recorde
  * Check if a mock exists for this request
  */
 export function mockExists(signature: RequestSignature): Cypress.Chainable<boolean> {
-    const filePath = generateMockPath(signature);
+    if (getConfig().storageFormat === 'cassette') {
+        return loadCassette().then(cassette => cassette.interactions.some(entry => isSameInteraction(signature, entry)));
+    }
+
+    const filePath = getMockPath(signature);
     return cy.task('mockExists', { filePath }, { log: false }) as Cypress.Chainable<boolean>;
 }
 
@@ -143,6 +621,8 @@ export function clearAllMocks(): Cypress.Chainable<boolean> {
     const config = getConfig();
     mockCache.clear();
     sessionMocks.length = 0;
+    activeCassette = null;
+    resetSequences();
     return cy.task('clearMocks', { dirPath: config.mockDir }, { log: false }) as Cypress.Chainable<boolean>;
 }
 
@@ -153,6 +633,13 @@ export function getSessionMocks(): string[] {
     return [...sessionMocks];
 }
 
+/**
+ * Get mock files served so far in this spec
+ */
+export function getServedMocks(): string[] {
+    return [...servedMocks];
+}
+
 /**
  * Clear the in-memory cache
  */
@@ -166,14 +653,33 @@ export function clearCache(): void {
 export function preloadMocks(): Cypress.Chainable<number> {
     const config = getConfig();
 
+    // A cassette is read whole on first use
+    if (config.storageFormat === 'cassette') {
+        return loadCassette().then((cassette) => {
+            log('info', `📦 Preloaded ${cassette.interactions.length} interactions from ${getCassettePath()}`);
+            return cassette.interactions.length;
+        });
+    }
+
     return listMocks().then((files) => {
         const loadPromises = files.map((file) => {
             const filePath = `${config.mockDir}/${file}`;
-            return cy.task('readMock', { filePath }, { log: false }).then((mock: RecordedMock | null) => {
-                if (mock) {
-                    const signature = createRequestSignature(mock.method, mock.url);
-                    const cacheKey = `${signature.method}:${signature.normalizedUrl}`;
-                    mockCache.set(cacheKey, mock);
+            return cy.task('readMock', { filePath, blobDir: getBlobDir() }, { log: false }).then((mock: RecordedMock | null) => {
+                // Skip placeholders and indexes such as .gitkeep.json and .routes.json
+                if (mock && mock.method) {
+                    const recorded = createRequestSignature(mock.method, mock.url, mock.requestBody);
+
+                    // Mocks stored under a route template keep a concrete url; key them by the template
+                    const signature = mock.pathname && mock.pathname !== recorded.pathname
+                        ? createTemplatedSignature(recorded, mock.pathname)
+                        : recorded;
+
+                    // Scoped mocks keep their namespace (the part before the regular path)
+                    const relativePath = generateMockRelativePath(signature);
+                    const namespace = file.endsWith(relativePath)
+                        ? file.slice(0, -relativePath.length).replace(/\/$/, '')
+                        : '';
+                    mockCache.set(getCacheKey(signature, namespace), mock);
                 }
             });
         });
@@ -185,6 +691,34 @@ export function preloadMocks(): Cypress.Chainable<number> {
     });
 }
 
+/**
+ * Build the in-memory cache key for a request signature
+ */
+function getCacheKey(signature: RequestSignature, namespace = ''): string {
+    return `${namespace}|${getSignatureKey(signature)}`;
+}
+
+/**
+ * Warn when a mock was recorded against a different API version
+ */
+function warnOnVersionMismatch(mock: RecordedMock, filePath: string): void {
+    const expected = getConfig().mockVersion;
+    if (expected && mock.version !== expected) {
+        log('warn', `⚠️ Mock ${filePath} was recorded for API version ${mock.version ?? 'unknown'}, expected ${expected}`);
+    }
+}
+
+/**
+ * Turn a spec or test title into a filesystem-safe directory name
+ */
+function slugify(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        || 'untitled';
+}
+
 /**
  * Log helper based on config log level
  */
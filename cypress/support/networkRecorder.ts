@@ -3,14 +3,33 @@
  * Core interceptor for recording and replaying API traffic
  */
 
-import { getConfig } from '../config/mock.config';
+import { getConfig, MockScope } from '../config/mock.config';
 import {
-    createRequestSignature,
+    extractQueryParams,
+    matchRouteTemplate,
+    registerRouteTemplates,
     shouldRecordUrl,
     RequestSignature
 } from './matcher';
 import { sanitizeHeaders, sanitizeUrl } from './sanitizer';
-import { saveMock, loadMock, log } from './mockStorage';
+import { getReplayTiming } from './latency';
+import { applyFaults, FaultableReply } from './faults';
+import { applyOverrides } from './overrides';
+import { findResource, handleResourceRequest, resetResources } from './resources';
+import { renderTemplates, resetTemplateCounters, TemplateContext } from './templating';
+import { createStoredSignature } from './redaction';
+import { loadContract, validateContract } from './contract';
+import {
+    saveMock,
+    findMock,
+    loadRouteIndex,
+    nextResponse,
+    resetSequences,
+    setMockScope,
+    getMockPath,
+    getScopeNamespaces,
+    log
+} from './mockStorage';
 
 /** Global state for the recorder */
 let isRecording = false;
@@ -19,6 +38,21 @@ let interceptedRequests = 0;
 let recordedRequests = 0;
 let replayedRequests = 0;
 
+/** Requests replay could not serve, reported by strict mode */
+const unmatchedRequests: UnmatchedRequest[] = [];
+
+export interface UnmatchedRequest {
+    method: string;
+    url: string;
+    expectedPath: string;
+    reason: string;
+}
+
+export interface NetworkMockingOptions {
+    /** Namespace recordings per spec or per test (defaults to config.mockScope) */
+    scope?: MockScope;
+}
+
 export interface NetworkRecorderState {
     isRecording: boolean;
     isReplaying: boolean;
@@ -33,7 +67,7 @@ export interface NetworkRecorderState {
 export function getMode(): 'record' | 'replay' | 'passthrough' {
     const mode = Cypress.env('MODE')?.toLowerCase();
     if (mode === 'record') return 'record';
-    if (mode === 'replay' || mode === 'mock') return 'replay';
+    if (mode === 'replay' || mode === 'mock' || mode === 'strict') return 'replay';
     return 'passthrough';
 }
 
@@ -41,16 +75,28 @@ export function getMode(): 'record' | 'replay' | 'passthrough' {
  * Initialize the network recorder
  * Sets up interceptors based on current mode
  */
-export function initNetworkRecorder(): void {
+export function initNetworkRecorder(options: NetworkMockingOptions = {}): void {
     const mode = getMode();
     const config = getConfig();
+    const scope = options.scope ?? config.mockScope;
 
-    log('info', `🎬 Initializing Network Mock Recorder in ${mode.toUpperCase()} mode`);
+    log('info', `🎬 Initializing Network Mock Recorder in ${mode.toUpperCase()} mode (${scope} scope)`);
+    setMockScope(scope);
+    registerRouteTemplates(config.routeTemplates);
 
     // Reset state
     interceptedRequests = 0;
     recordedRequests = 0;
     replayedRequests = 0;
+    unmatchedRequests.length = 0;
+    resetSequences();
+    resetTemplateCounters();
+    resetResources();
+
+    // The server-side proxy starts over too, replaying from the same namespaces with the same env
+    if (Cypress.env('PROXY_TARGET')) {
+        cy.task('resetNodeProxy', { namespaces: getScopeNamespaces(), env: Cypress.env() }, { log: false });
+    }
 
     if (mode === 'record') {
         isRecording = true;
@@ -73,6 +119,9 @@ export function initNetworkRecorder(): void {
 function setupRecordMode(): void {
     log('info', '🔴 RECORD mode active - capturing real API responses');
 
+    // Optional OpenAPI contract the captured responses are checked against
+    loadContract();
+
     // Intercept all requests
     cy.intercept('**', (req) => {
         const url = req.url;
@@ -92,6 +141,7 @@ function setupRecordMode(): void {
         // Continue to real server and capture response
         req.continue((res) => {
             const responseTime = Date.now() - startTime;
+            validateContract(req.method, url, res.statusCode, res.body);
 
             // Save the mock
             saveMock(
@@ -121,7 +171,11 @@ function setupRecordMode(): void {
 function setupReplayMode(): void {
     const config = getConfig();
 
-    log('info', '🟢 REPLAY mode active - serving mocked responses');
+    log('info', `🟢 REPLAY mode active - serving mocked responses${config.strictReplay ? ' (strict)' : ''}`);
+
+    // Route templates of generated mocks (e.g. /users/{id}) let one file serve any ID
+    loadRouteIndex();
+    loadContract();
 
     // Intercept all requests
     cy.intercept('**', (req) => {
@@ -135,23 +189,70 @@ function setupReplayMode(): void {
         }
 
         interceptedRequests++;
-        const signature = createRequestSignature(req.method, url);
+        const signature = createStoredSignature(req.method, url, req.body);
+
+        // Stateful resources answer from the in-memory store instead of the static recording
+        const resource = findResource(signature.pathname);
+        if (resource) {
+            handleResourceRequest(resource, signature, req.body).then((response) => {
+                replayedRequests++;
+                log('info', `🗃️ Serving from resource state: ${req.method} ${signature.pathname} (${response.status})`);
+
+                const reply = buildReply(req.method, url, {
+                    statusCode: response.status,
+                    body: response.response,
+                    headers: response.responseHeaders as Record<string, string>,
+                }, response.responseTime);
+                req.reply(reply as Parameters<typeof req.reply>[0]);
+            });
+            return;
+        }
 
         log('debug', `🔍 Looking for mock: ${req.method} ${signature.pathname}`);
 
         // Try to load mock
-        loadMock(signature).then((mock) => {
-            if (mock) {
+        findMock(signature).then((lookup) => {
+            const mock = lookup?.mock ?? null;
+            const response = lookup ? nextResponse(lookup.source, lookup.mock) : null;
+
+            // Near-misses are served, but strict mode fails the test on them
+            if (lookup && lookup.match.tier !== 'exact') {
+                trackUnmatched(signature, `${lookup.match.tier} match only: ${lookup.match.reasons.join('; ')}`);
+            }
+
+            if (mock && !response) {
+                // Recorded sequence ran out and the policy is 'fail'
+                log('error', `❌ Mock sequence exhausted: ${req.method} ${url}`);
+                trackUnmatched(signature, 'sequence exhausted');
+                req.reply({
+                    statusCode: 500,
+                    body: {
+                        error: 'Mock sequence exhausted',
+                        message: `All recorded responses for ${req.method} ${url} were already served`,
+                        hint: 'Re-record the test or set SEQUENCE_POLICY to repeat-last or loop',
+                    },
+                });
+            } else if (mock && response) {
                 replayedRequests++;
                 log('info', `✅ Replaying mock: ${req.method} ${signature.pathname}`);
 
+                // Fill dynamic fields with fresh values (path params of templated mocks included)
+                const context: TemplateContext = {
+                    queryParams: extractQueryParams(url),
+                    requestBody: req.body,
+                    params: matchRouteTemplate(mock.pathname, signature.pathname) ?? undefined,
+                };
+                const body = renderTemplates(response.response, context);
+                validateContract(req.method, url, response.status, body);
+
                 // Serve the mocked response
-                req.reply({
-                    statusCode: mock.status,
-                    body: mock.response,
-                    headers: mock.responseHeaders as Record<string, string>,
-                });
-            } else if (config.autoFallback) {
+                const reply = buildReply(req.method, url, {
+                    statusCode: response.status,
+                    body,
+                    headers: renderTemplates(response.responseHeaders, context) as Record<string, string>,
+                }, response.responseTime);
+                req.reply(reply as Parameters<typeof req.reply>[0]);
+            } else if (config.autoFallback && !config.strictReplay) {
                 // Fallback to real API and record
                 log('warn', `⚠️ Mock not found, falling back to real API: ${req.method} ${url}`);
 
@@ -182,6 +283,7 @@ function setupReplayMode(): void {
             } else {
                 // No mock and no fallback - fail the request
                 log('error', `❌ Mock not found and fallback disabled: ${req.method} ${url}`);
+                trackUnmatched(signature, 'mock not found');
                 req.reply({
                     statusCode: 500,
                     body: {
@@ -195,6 +297,55 @@ function setupReplayMode(): void {
     });
 }
 
+/**
+ * Finish a replayed reply: per-test overrides, then any injected fault, plus replay timing
+ */
+function buildReply(method: string, url: string, reply: FaultableReply, recordedTime?: number): FaultableReply {
+    return applyFaults(method, url, applyOverrides(method, url, {
+        ...reply,
+        ...getReplayTiming(method, url, recordedTime),
+    }));
+}
+
+/**
+ * Remember a request replay could not serve
+ */
+function trackUnmatched(signature: RequestSignature, reason: string): void {
+    unmatchedRequests.push({
+        method: signature.method,
+        url: signature.url,
+        expectedPath: getMockPath(signature),
+        reason,
+    });
+}
+
+/**
+ * Get requests replay could not serve in the current test
+ */
+export function getUnmatchedRequests(): UnmatchedRequest[] {
+    return [...unmatchedRequests];
+}
+
+/**
+ * Throw if strict replay saw unmatched requests in the current test
+ */
+export function assertNoUnmatchedRequests(): void {
+    const config = getConfig();
+    if (!config.strictReplay || unmatchedRequests.length === 0) {
+        return;
+    }
+
+    const lines = unmatchedRequests.map(
+        r => `  ${r.method} ${r.url} (${r.reason})\n    expected mock: ${r.expectedPath}`
+    );
+    unmatchedRequests.length = 0;
+
+    throw new Error(
+        `Strict replay: ${lines.length} request(s) had no exact mock:\n${lines.join('\n')}\n` +
+        'Record the missing mocks with MODE=record.'
+    );
+}
+
 /**
  * Stop the network recorder
  */
@@ -0,0 +1,247 @@
+/**
+ * OpenAPI Contract
+ * Browser-safe OpenAPI 3 helpers: operation lookup and response schema validation
+ */
+
+import { matchRouteTemplate, normalizeRouteTemplate } from './matcher';
+
+/** Loose OpenAPI object (schema, operation, response, media); fields are narrowed where read */
+export type OpenApiSchema = Record<string, unknown>;
+
+export interface OpenApiDocument {
+    openapi: string;
+    servers?: { url: string }[];
+    paths: Record<string, Record<string, OpenApiSchema>>;
+    components?: Record<string, Record<string, OpenApiSchema>>;
+}
+
+export interface OpenApiOperation {
+    method: string;
+    /** Path template as written in the document, e.g. /users/{id} */
+    template: string;
+    /** Template with the server base path applied, in ':param' form */
+    route: string;
+    operation: OpenApiSchema;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * List every operation with its route (base path applied)
+ */
+export function listOperations(doc: OpenApiDocument, basePath = getBasePath(doc)): OpenApiOperation[] {
+    const operations: OpenApiOperation[] = [];
+
+    for (const [template, pathItem] of Object.entries(doc.paths)) {
+        for (const method of HTTP_METHODS) {
+            if (pathItem[method]) {
+                operations.push({
+                    method: method.toUpperCase(),
+                    template,
+                    route: normalizeRouteTemplate(`${basePath}${template}`),
+                    operation: pathItem[method],
+                });
+            }
+        }
+    }
+
+    return operations;
+}
+
+/**
+ * Path part of the first server URL ('' when absent)
+ */
+export function getBasePath(doc: OpenApiDocument): string {
+    const serverUrl = doc.servers?.[0]?.url;
+    if (!serverUrl) {
+        return '';
+    }
+    try {
+        return new URL(serverUrl, 'http://localhost').pathname.replace(/\/$/, '');
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Follow a local $ref ('#/components/schemas/User')
+ */
+export function resolveRef<T extends OpenApiSchema | undefined>(doc: OpenApiDocument, value: T): T {
+    let current: OpenApiSchema | undefined = value;
+    let hops = 0;
+
+    while (current && typeof current.$ref === 'string' && hops++ < 20) {
+        const target: unknown = current.$ref
+            .replace(/^#\//, '')
+            .split('/')
+            .map((part: string) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+            .reduce<unknown>((node, part) => (node as Record<string, unknown> | undefined)?.[part], doc);
+        current = target as OpenApiSchema | undefined;
+    }
+    return current as T;
+}
+
+/**
+ * Pick the documented success response: lowest 2xx, else 'default'
+ */
+export function pickSuccessResponse(
+    doc: OpenApiDocument,
+    operation: OpenApiSchema
+): { status: number; response: OpenApiSchema } | null {
+    const responses = asSchemaMap(operation.responses);
+    const codes = Object.keys(responses).filter(code => /^2\d\d$/.test(code)).sort();
+
+    if (codes.length > 0) {
+        return { status: Number(codes[0]), response: resolveRef(doc, responses[codes[0]]) };
+    }
+    if (responses.default) {
+        return { status: 200, response: resolveRef(doc, responses.default) };
+    }
+    return null;
+}
+
+/**
+ * The JSON media type of a response, if any
+ */
+export function getJsonMedia(response: OpenApiSchema): { mimeType: string; media: OpenApiSchema } | null {
+    const content = asSchemaMap(response.content);
+    const mimeType = Object.keys(content).find(type => type.includes('json')) ?? Object.keys(content)[0];
+    return mimeType ? { mimeType, media: content[mimeType] } : null;
+}
+
+/**
+ * Find the documented operation for a request
+ */
+export function findOperation(doc: OpenApiDocument, method: string, pathname: string): OpenApiOperation | null {
+    const operations = listOperations(doc).filter(op => op.method === method.toUpperCase());
+
+    // Literal paths win over templates (/users/me before /users/{id})
+    return operations.find(op => op.route === pathname)
+        ?? operations.find(op => matchRouteTemplate(op.route, pathname) !== null)
+        ?? null;
+}
+
+/**
+ * Schema of the documented response for a status ('200', then '2XX', then 'default')
+ * Returns undefined for an undocumented status, null when the response has no JSON body
+ */
+export function getResponseSchema(
+    doc: OpenApiDocument,
+    operation: OpenApiSchema,
+    status: number
+): OpenApiSchema | null | undefined {
+    const responses = asSchemaMap(operation.responses);
+    const entry = responses[String(status)] ?? responses[`${String(status)[0]}XX`] ?? responses.default;
+    if (!entry) {
+        return undefined;
+    }
+    const media = getJsonMedia(resolveRef(doc, entry));
+    return media ? asSchema(media.media.schema) ?? null : null;
+}
+
+/**
+ * Validate a value against a schema, returning human-readable violations
+ */
+export function validateSchema(
+    doc: OpenApiDocument,
+    input: OpenApiSchema,
+    value: unknown,
+    valuePath = '$'
+): string[] {
+    const schema = resolveRef(doc, input);
+    if (!schema) {
+        return [];
+    }
+
+    const types = getSchemaTypes(schema);
+    if (value === null) {
+        const nullable = schema.nullable === true || types.includes('null');
+        return nullable || types.length === 0 ? [] : [`${valuePath}: must not be null`];
+    }
+
+    if (Array.isArray(schema.allOf)) {
+        return asSchemaList(schema.allOf).flatMap(part => validateSchema(doc, part, value, valuePath));
+    }
+    const variants = schema.oneOf ?? schema.anyOf;
+    if (Array.isArray(variants)) {
+        const matches = asSchemaList(variants).some(variant => validateSchema(doc, variant, value, valuePath).length === 0);
+        return matches ? [] : [`${valuePath}: does not match any allowed schema`];
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+        return [`${valuePath}: ${JSON.stringify(value)} is not one of ${JSON.stringify(schema.enum)}`];
+    }
+
+    const actual = jsonType(value);
+    if (types.length > 0 && !types.some(type => type === actual || (type === 'number' && actual === 'integer'))) {
+        return [`${valuePath}: expected ${types.join(' | ')}, got ${actual}`];
+    }
+
+    if (actual === 'object') {
+        const record = value as Record<string, unknown>;
+        const properties = asSchemaMap(schema.properties);
+        const additional = schema.additionalProperties;
+        const violations: string[] = [];
+
+        for (const key of Array.isArray(schema.required) ? schema.required : []) {
+            if (typeof key === 'string' && !(key in record)) {
+                violations.push(`${valuePath}.${key}: required property missing`);
+            }
+        }
+        for (const [key, child] of Object.entries(record)) {
+            if (properties[key]) {
+                violations.push(...validateSchema(doc, properties[key], child, `${valuePath}.${key}`));
+            } else if (additional === false) {
+                violations.push(`${valuePath}.${key}: unexpected property`);
+            } else if (asSchema(additional)) {
+                violations.push(...validateSchema(doc, asSchema(additional)!, child, `${valuePath}.${key}`));
+            }
+        }
+        return violations;
+    }
+
+    const items = asSchema(schema.items);
+    if (actual === 'array' && items) {
+        return (value as unknown[]).flatMap((item, i) => validateSchema(doc, items, item, `${valuePath}[${i}]`));
+    }
+
+    return [];
+}
+
+/**
+ * Declared type names of a schema ('type' is a name or a list of names)
+ */
+export function getSchemaTypes(schema: OpenApiSchema): string[] {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    return types.filter((type): type is string => typeof type === 'string');
+}
+
+/**
+ * Narrow a field to a nested schema object
+ */
+export function asSchema(value: unknown): OpenApiSchema | undefined {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as OpenApiSchema : undefined;
+}
+
+/**
+ * Narrow a field to a list of schemas (allOf, oneOf, anyOf)
+ */
+export function asSchemaList(value: unknown): OpenApiSchema[] {
+    return Array.isArray(value) ? value.map(asSchema).filter((item): item is OpenApiSchema => item !== undefined) : [];
+}
+
+/**
+ * Narrow a field to schemas by name (properties, responses, content)
+ */
+export function asSchemaMap(value: unknown): Record<string, OpenApiSchema> {
+    return (asSchema(value) ?? {}) as Record<string, OpenApiSchema>;
+}
+
+/**
+ * JSON Schema type name of a value
+ */
+function jsonType(value: unknown): string {
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+}
@@ -0,0 +1,302 @@
+/**
+ * Mock Overrides
+ * Per-test patches layered on top of replayed recordings
+ */
+
+import { log } from './mockStorage';
+import type { FaultableReply } from './faults';
+
+/** Which requests an override applies to: URL pattern (regex string or RegExp), optionally per method */
+export type OverrideMatcher = string | RegExp | { method?: string; url: string | RegExp };
+
+/** One RFC 6902 JSON Patch operation */
+export interface JsonPatchOperation {
+    op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+    /** JSON Pointer, e.g. /orders/0/status */
+    path: string;
+    value?: unknown;
+    /** Source pointer for move and copy */
+    from?: string;
+}
+
+export interface MockPatch {
+    /** Replace the recorded status code */
+    statusCode?: number;
+
+    /** Set response headers (null removes one) */
+    headers?: Record<string, string | null>;
+
+    /** RFC 7386 JSON merge patch applied to the body (null removes a field) */
+    merge?: unknown;
+
+    /** RFC 6902 JSON Patch operations applied to the body after the merge patch */
+    patch?: JsonPatchOperation[];
+}
+
+/** Overrides registered in the current test, applied in order */
+const overrides: { matcher: OverrideMatcher; patch: MockPatch }[] = [];
+
+/**
+ * Register an override for the current test
+ */
+export function overrideMock(matcher: OverrideMatcher, patch: MockPatch): void {
+    overrides.push({ matcher, patch });
+}
+
+/**
+ * Remove all overrides (called after each test)
+ */
+export function clearOverrides(): void {
+    overrides.length = 0;
+}
+
+/**
+ * Apply every matching override to a replayed reply
+ */
+export function applyOverrides(method: string, url: string, reply: FaultableReply): FaultableReply {
+    let result = reply;
+
+    for (const { matcher, patch } of overrides) {
+        if (!matchesOverride(matcher, method, url)) {
+            continue;
+        }
+
+        log('info', `🩹 Overriding mock: ${method} ${url}`);
+        result = patchReply(result, patch);
+    }
+
+    return result;
+}
+
+/**
+ * Check if an override targets this request
+ */
+function matchesOverride(matcher: OverrideMatcher, method: string, url: string): boolean {
+    const { method: expectedMethod, url: pattern } = typeof matcher === 'object' && !(matcher instanceof RegExp)
+        ? matcher
+        : { method: undefined, url: matcher };
+
+    if (expectedMethod && expectedMethod.toUpperCase() !== method.toUpperCase()) {
+        return false;
+    }
+    return (typeof pattern === 'string' ? new RegExp(pattern, 'i') : pattern).test(url);
+}
+
+/**
+ * Apply one patch to a reply, leaving untouched parts as recorded
+ */
+function patchReply(reply: FaultableReply, patch: MockPatch): FaultableReply {
+    const result: FaultableReply = { ...reply };
+
+    if (patch.statusCode !== undefined) {
+        result.statusCode = patch.statusCode;
+    }
+
+    if (patch.headers) {
+        const headers = { ...reply.headers };
+        for (const [name, value] of Object.entries(patch.headers)) {
+            const existing = Object.keys(headers).find(key => key.toLowerCase() === name.toLowerCase());
+            if (existing) {
+                delete headers[existing];
+            }
+            if (value !== null) {
+                headers[name.toLowerCase()] = value;
+            }
+        }
+        result.headers = headers;
+    }
+
+    if (patch.merge !== undefined || patch.patch) {
+        let body = parseJson(reply.body);
+        if (patch.merge !== undefined) {
+            body = mergePatch(body, patch.merge);
+        }
+        if (patch.patch) {
+            body = applyJsonPatch(body, patch.patch);
+        }
+        result.body = body;
+    }
+
+    return result;
+}
+
+/**
+ * Copy a JSON body, parsing string bodies
+ */
+function parseJson(body: unknown): unknown {
+    if (typeof body === 'string') {
+        try {
+            return JSON.parse(body);
+        } catch {
+            return body;
+        }
+    }
+    return body === undefined ? undefined : JSON.parse(JSON.stringify(body));
+}
+
+/**
+ * RFC 7386 JSON merge patch
+ */
+export function mergePatch(target: unknown, patch: unknown): unknown {
+    if (!isObject(patch)) {
+        return patch;
+    }
+
+    const result: Record<string, unknown> = isObject(target) ? { ...target } : {};
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === null) {
+            delete result[key];
+        } else {
+            result[key] = mergePatch(result[key], value);
+        }
+    }
+    return result;
+}
+
+/**
+ * RFC 6902 JSON Patch (operations applied in order, throwing on an invalid path)
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+    let doc = document;
+
+    for (const operation of operations) {
+        switch (operation.op) {
+            case 'add':
+                doc = setPointer(doc, operation.path, operation.value, 'add');
+                break;
+            case 'replace':
+                doc = setPointer(doc, operation.path, operation.value, 'replace');
+                break;
+            case 'remove':
+                doc = removePointer(doc, operation.path);
+                break;
+            case 'copy':
+                doc = setPointer(doc, operation.path, parseJson(getPointer(doc, requireFrom(operation))), 'add');
+                break;
+            case 'move': {
+                const value = getPointer(doc, requireFrom(operation));
+                doc = setPointer(removePointer(doc, requireFrom(operation)), operation.path, value, 'add');
+                break;
+            }
+            case 'test':
+                if (JSON.stringify(getPointer(doc, operation.path)) !== JSON.stringify(operation.value)) {
+                    throw new Error(`JSON Patch test failed at ${operation.path}`);
+                }
+                break;
+            default:
+                throw new Error(`Unknown JSON Patch operation: ${(operation as JsonPatchOperation).op}`);
+        }
+    }
+
+    return doc;
+}
+
+/**
+ * Source pointer of a move/copy operation
+ */
+function requireFrom(operation: JsonPatchOperation): string {
+    if (operation.from === undefined) {
+        throw new Error(`JSON Patch ${operation.op} at ${operation.path} needs a "from" pointer`);
+    }
+    return operation.from;
+}
+
+/**
+ * Split a JSON Pointer into unescaped tokens
+ */
+function parsePointer(pointer: string): string[] {
+    if (pointer === '') {
+        return [];
+    }
+    if (!pointer.startsWith('/')) {
+        throw new Error(`Invalid JSON Pointer: ${pointer}`);
+    }
+    return pointer.substring(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Read the value at a JSON Pointer
+ */
+function getPointer(doc: unknown, pointer: string): unknown {
+    return resolveTokens(doc, parsePointer(pointer), pointer);
+}
+
+/**
+ * Walk pointer tokens down a document
+ */
+function resolveTokens(doc: unknown, tokens: string[], pointer: string): unknown {
+    let current = doc;
+    for (const token of tokens) {
+        if (!isContainer(current) || !(token in current)) {
+            throw new Error(`JSON Patch path not found: ${pointer}`);
+        }
+        current = (current as Record<string, unknown>)[token];
+    }
+    return current;
+}
+
+/**
+ * Add or replace the value at a JSON Pointer ('-' appends to arrays)
+ */
+function setPointer(doc: unknown, pointer: string, value: unknown, mode: 'add' | 'replace'): unknown {
+    const tokens = parsePointer(pointer);
+    if (tokens.length === 0) {
+        return value;
+    }
+
+    const key = tokens.pop()!;
+    const parent = resolveTokens(doc, tokens, pointer);
+
+    if (Array.isArray(parent)) {
+        const index = key === '-' ? parent.length : Number(key);
+        if (!Number.isInteger(index) || index < 0 || index > parent.length || (mode === 'replace' && index >= parent.length)) {
+            throw new Error(`JSON Patch index out of range: ${pointer}`);
+        }
+        parent.splice(index, mode === 'replace' ? 1 : 0, value);
+    } else if (isObject(parent)) {
+        if (mode === 'replace' && !(key in parent)) {
+            throw new Error(`JSON Patch path not found: ${pointer}`);
+        }
+        parent[key] = value;
+    } else {
+        throw new Error(`JSON Patch parent is not a container: ${pointer}`);
+    }
+
+    return doc;
+}
+
+/**
+ * Remove the value at a JSON Pointer
+ */
+function removePointer(doc: unknown, pointer: string): unknown {
+    const tokens = parsePointer(pointer);
+    if (tokens.length === 0) {
+        return undefined;
+    }
+
+    // Throws when the target doesn't exist
+    getPointer(doc, pointer);
+    const key = tokens.pop()!;
+    const parent = resolveTokens(doc, tokens, pointer);
+
+    if (Array.isArray(parent)) {
+        parent.splice(Number(key), 1);
+    } else {
+        delete (parent as Record<string, unknown>)[key];
+    }
+    return doc;
+}
+
+/**
+ * Check for a plain (non-array) object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check for an object or array
+ */
+function isContainer(value: unknown): value is object {
+    return value !== null && typeof value === 'object';
+}
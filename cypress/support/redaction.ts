@@ -0,0 +1,274 @@
+/**
+ * Structured Redaction
+ * Per-field PII rules applied to recordings (response and request side) before they are stored
+ */
+
+import { getConfig, RedactionRule } from '../config/mock.config';
+import { createRequestSignature, RequestSignature, simpleHash } from './matcher';
+import { parsePath } from './templating';
+
+type PathSegment = string | number;
+
+/** Tokens issued this spec, so 'token' redactions can be reversed locally */
+const issuedTokens = new Map<string, unknown>();
+
+/** Domain used for fake emails (skipped by the PII scan) */
+export const FAKE_EMAIL_DOMAIN = 'example.com';
+
+/** Shapes of redacted values (see redactWith and the sanitizer's placeholders) */
+const REDACTED_PATTERNS = [
+    /^\*{3}[A-Z]+\*{3}$/,
+    /^\*{2,}.{0,4}$/,
+    /^(hash|tok|fake)_[a-z0-9]+$/,
+    new RegExp(`^user_[a-z0-9]+@${FAKE_EMAIL_DOMAIN.replace('.', '\\.')}$`),
+    /^Person [A-Z0-9]+$/,
+];
+
+/**
+ * Apply the configured redaction rules that match a URL
+ */
+export function redactBody(url: string, body: unknown): unknown {
+    const rules = compileRules(url);
+    if (rules.length === 0) {
+        return body;
+    }
+    return redactValue(body, [], rules);
+}
+
+/**
+ * Apply the rules to the request side of a recording: body fields, query params and
+ * headers (by name). String bodies are redacted when they are JSON or form-encoded.
+ */
+export function redactRequest<T extends { url: string; headers?: Record<string, string | string[]>; body?: unknown }>(
+    request: T
+): T {
+    const rules = compileRules(request.url);
+    if (rules.length === 0) {
+        return request;
+    }
+
+    return {
+        ...request,
+        url: redactQuery(request.url, rules),
+        headers: request.headers && redactValue(request.headers, [], rules) as Record<string, string | string[]>,
+        body: typeof request.body === 'string' ? redactEncoded(request.body, rules) : redactValue(request.body, [], rules),
+    };
+}
+
+/**
+ * Signature of a request as the store sees it: redaction is deterministic, so a
+ * replayed request redacted the same way matches its (redacted) recording
+ */
+export function createStoredSignature(method: string, url: string, body?: unknown): RequestSignature {
+    const redacted = redactRequest({ url, body });
+    return createRequestSignature(method, redacted.url, redacted.body);
+}
+
+/**
+ * Check if a stored value was produced by a redaction rule or the sanitizer
+ * (masked, hashed, tokenized or faked), so it no longer holds the original
+ */
+export function isRedactedValue(value: unknown): boolean {
+    return typeof value === 'string' && REDACTED_PATTERNS.some(pattern => pattern.test(value));
+}
+
+/**
+ * Get tokens issued by 'token' rules (token -> original value)
+ */
+export function getIssuedTokens(): Record<string, unknown> {
+    return Object.fromEntries(issuedTokens);
+}
+
+/** Rules with their parsed path selectors */
+type CompiledRule = { rule: RedactionRule; segments?: (string | number | '*')[] };
+
+/**
+ * Redaction rules that apply to a URL
+ */
+function compileRules(url: string): CompiledRule[] {
+    return getConfig().redactionRules
+        .filter(r => !r.route || new RegExp(r.route, 'i').test(url))
+        .map(rule => ({ rule, segments: rule.path ? parsePath(rule.path) : undefined }));
+}
+
+/**
+ * Redact query param values as if the query were an object ($.param or field rules)
+ */
+function redactQuery(url: string, rules: CompiledRule[]): string {
+    const queryStart = url.indexOf('?');
+    if (queryStart === -1) {
+        return url;
+    }
+
+    const hashStart = url.indexOf('#', queryStart);
+    const query = url.substring(queryStart + 1, hashStart === -1 ? undefined : hashStart);
+    const redacted = redactParams(new URLSearchParams(query), rules);
+    if (redacted === new URLSearchParams(query).toString()) {
+        return url;
+    }
+    return `${url.substring(0, queryStart)}${redacted ? `?${redacted}` : ''}${hashStart === -1 ? '' : url.substring(hashStart)}`;
+}
+
+/**
+ * Redact a JSON or form-encoded string body (other text is kept as is)
+ */
+function redactEncoded(body: string, rules: CompiledRule[]): string {
+    try {
+        const parsed: unknown = JSON.parse(body);
+        if (parsed && typeof parsed === 'object') {
+            return JSON.stringify(redactValue(parsed, [], rules));
+        }
+    } catch {
+        // Not JSON
+    }
+    return /^[^\s=&]+=[^\s]*$/.test(body) ? redactParams(new URLSearchParams(body), rules) : body;
+}
+
+/**
+ * Redact URL-encoded params, dropping those a 'drop' rule selects
+ */
+function redactParams(params: URLSearchParams, rules: CompiledRule[]): string {
+    const result = new URLSearchParams();
+    for (const [key, value] of params) {
+        const redacted = applyRules(value, [key], rules);
+        if (redacted !== DROP) {
+            result.append(key, String(redacted));
+        }
+    }
+    return result.toString();
+}
+
+/**
+ * Walk the body, applying the first rule that selects each location
+ */
+function redactValue(
+    value: unknown,
+    path: PathSegment[],
+    rules: CompiledRule[]
+): unknown {
+    if (Array.isArray(value)) {
+        const result: unknown[] = [];
+        value.forEach((item, index) => {
+            const redacted = applyRules(item, [...path, index], rules);
+            if (redacted !== DROP) {
+                result.push(redacted);
+            }
+        });
+        return result;
+    }
+
+    if (value && typeof value === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const [key, child] of Object.entries(value)) {
+            const redacted = applyRules(child, [...path, key], rules);
+            if (redacted !== DROP) {
+                result[key] = redacted;
+            }
+        }
+        return result;
+    }
+
+    return value;
+}
+
+/** Marker for dropped fields */
+const DROP = Symbol('drop');
+
+/**
+ * Redact one location, or recurse when no rule selects it
+ */
+function applyRules(
+    value: unknown,
+    path: PathSegment[],
+    rules: CompiledRule[]
+): unknown {
+    const key = path[path.length - 1];
+    const match = rules.find(({ rule, segments }) =>
+        (rule.field !== undefined && typeof key === 'string' && rule.field.toLowerCase() === key.toLowerCase())
+        || (segments !== undefined && pathMatches(segments, path))
+    );
+
+    if (!match) {
+        return redactValue(value, path, rules);
+    }
+    return redactWith(match.rule, value, String(key));
+}
+
+/**
+ * Check a concrete path against a selector with wildcards
+ */
+function pathMatches(selector: (string | number | '*')[], path: PathSegment[]): boolean {
+    if (selector.length !== path.length) {
+        return false;
+    }
+    return selector.every((segment, i) => segment === '*' || segment === path[i]);
+}
+
+/**
+ * Produce the redacted value for a rule
+ */
+function redactWith(rule: RedactionRule, value: unknown, key: string): unknown {
+    if (value === null || value === undefined) {
+        return value;
+    }
+
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+
+    switch (rule.action) {
+        case 'drop':
+            return DROP;
+        case 'mask':
+            return maskValue(text);
+        case 'hash':
+            return `hash_${simpleHash(text)}`;
+        case 'fake':
+            return fakeValue(rule.fake ?? inferFakeKind(key), text);
+        case 'token': {
+            const token = `tok_${simpleHash(`${key}:${text}`)}`;
+            issuedTokens.set(token, value);
+            return token;
+        }
+        default:
+            return value;
+    }
+}
+
+/**
+ * Mask all but the last 4 characters
+ */
+function maskValue(text: string): string {
+    if (text.length <= 4) {
+        return '*'.repeat(text.length);
+    }
+    return '*'.repeat(text.length - 4) + text.slice(-4);
+}
+
+/**
+ * Guess a fake kind from the field name
+ */
+function inferFakeKind(key: string): NonNullable<RedactionRule['fake']> {
+    const lower = key.toLowerCase();
+    if (lower.includes('email')) return 'email';
+    if (lower.includes('phone') || lower.includes('mobile')) return 'phone';
+    if (lower.includes('name')) return 'name';
+    return 'string';
+}
+
+/**
+ * Fake value derived from the original, so equal inputs give equal fakes
+ */
+function fakeValue(kind: NonNullable<RedactionRule['fake']>, text: string): string {
+    const hash = simpleHash(text);
+    switch (kind) {
+        case 'email':
+            return `user_${hash}@${FAKE_EMAIL_DOMAIN}`;
+        case 'phone': {
+            const digits = String(parseInt(hash, 36) % 10000).padStart(4, '0');
+            return `555-01${digits.substring(0, 2)}-${digits}`;
+        }
+        case 'name':
+            return `Person ${hash.toUpperCase()}`;
+        default:
+            return `fake_${hash}`;
+    }
+}
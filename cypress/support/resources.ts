@@ -0,0 +1,217 @@
+/**
+ * Stateful Resources
+ * In-memory CRUD emulation for configured REST collections during replay
+ */
+
+import { getConfig, StatefulResource } from '../config/mock.config';
+import { createRequestSignature, matchRouteTemplate, RequestSignature } from './matcher';
+import { getResponses, loadMock, log, RecordedResponse } from './mockStorage';
+import { parsePath, renderTemplates } from './templating';
+
+/** A request aimed at a stateful collection or one of its items */
+export interface ResourceTarget {
+    resource: StatefulResource;
+    /** Concrete collection path, e.g. /users/5/orders */
+    collectionPath: string;
+    /** Item ID from the path (absent for collection requests) */
+    itemId?: string;
+}
+
+/** Live state of one collection */
+interface CollectionState {
+    items: Record<string, unknown>[];
+    /** Recorded collection response the items are served in */
+    template: RecordedResponse;
+}
+
+/** Collection states for the current test, keyed by collection path */
+const collections = new Map<string, CollectionState>();
+
+/**
+ * Find the stateful resource a pathname belongs to
+ */
+export function findResource(pathname: string): ResourceTarget | null {
+    for (const resource of getConfig().statefulResources) {
+        if (matchRouteTemplate(resource.route, pathname)) {
+            return { resource, collectionPath: pathname };
+        }
+
+        const itemParams = matchRouteTemplate(`${resource.route}/:__item`, pathname);
+        if (itemParams) {
+            return {
+                resource,
+                collectionPath: pathname.substring(0, pathname.lastIndexOf('/')),
+                itemId: itemParams.__item,
+            };
+        }
+    }
+    return null;
+}
+
+/**
+ * Drop all collection state (called after each test)
+ */
+export function resetResources(): void {
+    collections.clear();
+}
+
+/**
+ * Answer a request from the in-memory store, seeding it from the recorded collection first
+ */
+export function handleResourceRequest(
+    target: ResourceTarget,
+    signature: RequestSignature,
+    body: unknown
+): Cypress.Chainable<RecordedResponse> {
+    return loadCollection(target, signature).then((state) => {
+        return applyOperation(target, state, signature, body);
+    });
+}
+
+/**
+ * Get the state of a collection, loading the recorded GET response on first use
+ */
+function loadCollection(target: ResourceTarget, signature: RequestSignature): Cypress.Chainable<CollectionState> {
+    const existing = collections.get(target.collectionPath);
+    if (existing) {
+        return cy.wrap(existing, { log: false });
+    }
+
+    const origin = signature.url.substring(0, signature.url.indexOf(signature.pathname));
+    const collectionSignature = createRequestSignature('GET', `${origin}${target.collectionPath}`);
+
+    return loadMock(collectionSignature).then((mock) => {
+        const template: RecordedResponse = mock
+            ? getResponses(mock)[0]
+            : { status: 200, response: [], recordedAt: new Date().toISOString() };
+        const body = renderTemplates(template.response, { queryParams: {} });
+        const items = getItems(body, target.resource);
+
+        if (!mock) {
+            log('warn', `⚠️ No recorded collection for ${target.collectionPath}, starting empty`);
+        }
+        log('info', `🗃️ Seeded ${target.collectionPath} with ${items.length} items`);
+
+        // The body changes as items are written, so recorded length/encoding no longer apply
+        const responseHeaders = Object.fromEntries(Object.entries(template.responseHeaders ?? {})
+            .filter(([name]) => !['content-length', 'content-encoding'].includes(name.toLowerCase())));
+
+        const state: CollectionState = { items, template: { ...template, response: body, responseHeaders } };
+        collections.set(target.collectionPath, state);
+        return state;
+    });
+}
+
+/**
+ * Apply the request to the collection and build the response
+ */
+function applyOperation(
+    target: ResourceTarget,
+    state: CollectionState,
+    signature: RequestSignature,
+    rawBody: unknown
+): RecordedResponse {
+    const idField = target.resource.idField ?? 'id';
+    const body = parseBody(rawBody);
+    const index = target.itemId === undefined
+        ? -1
+        : state.items.findIndex(item => String(item[idField]) === target.itemId);
+    const respond = (status: number, response: unknown): RecordedResponse => ({
+        status,
+        responseHeaders: { 'content-type': 'application/json' },
+        response,
+        recordedAt: new Date().toISOString(),
+    });
+
+    log('debug', `🗃️ ${signature.method} ${signature.pathname} (${state.items.length} items)`);
+
+    // Collection requests
+    if (target.itemId === undefined) {
+        if (signature.method === 'GET') {
+            const items = state.items.filter(item => Object.entries(signature.queryParams)
+                .every(([key, value]) => !(key in item) || String(item[key]) === value));
+            return { ...state.template, response: setItems(state.template.response, target.resource, items) };
+        }
+        if (signature.method === 'POST') {
+            const item = { ...body, [idField]: body[idField] ?? nextId(state.items, idField) };
+            state.items.push(item);
+            return respond(201, item);
+        }
+        return respond(405, { error: `${signature.method} is not supported on ${target.collectionPath}` });
+    }
+
+    // Item requests
+    if (index === -1) {
+        return respond(404, { error: `${target.collectionPath}/${target.itemId} not found` });
+    }
+
+    switch (signature.method) {
+        case 'GET':
+            return respond(200, state.items[index]);
+        case 'PUT':
+            state.items[index] = { ...body, [idField]: state.items[index][idField] };
+            return respond(200, state.items[index]);
+        case 'PATCH':
+            state.items[index] = { ...state.items[index], ...body, [idField]: state.items[index][idField] };
+            return respond(200, state.items[index]);
+        case 'DELETE':
+            state.items.splice(index, 1);
+            return respond(200, {});
+        default:
+            return respond(405, { error: `${signature.method} is not supported on ${signature.pathname}` });
+    }
+}
+
+/**
+ * Pick the item array out of a collection body (itemsPath, default the body itself)
+ */
+function getItems(body: unknown, resource: StatefulResource): Record<string, unknown>[] {
+    let current = body;
+    for (const segment of parsePath(resource.itemsPath ?? '$')) {
+        current = current && typeof current === 'object' ? (current as Record<string, unknown>)[segment] : undefined;
+    }
+    return Array.isArray(current) ? current.map(item => ({ ...item })) : [];
+}
+
+/**
+ * Put the current items back into the recorded collection body
+ */
+function setItems(body: unknown, resource: StatefulResource, items: unknown[]): unknown {
+    const segments = parsePath(resource.itemsPath ?? '$');
+    if (segments.length === 0) {
+        return items;
+    }
+
+    const result = JSON.parse(JSON.stringify(body ?? {}));
+    let parent = result;
+    for (const segment of segments.slice(0, -1)) {
+        parent = parent[segment];
+    }
+    parent[segments[segments.length - 1]] = items;
+    return result;
+}
+
+/**
+ * Next ID for a new item: max + 1 for numeric IDs, a random string otherwise
+ */
+function nextId(items: Record<string, unknown>[], idField: string): string | number {
+    const ids = items.map(item => item[idField]);
+    if (ids.every(id => typeof id === 'number')) {
+        return Math.max(0, ...(ids as number[])) + 1;
+    }
+    return Math.random().toString(36).substring(2, 10);
+}
+
+/**
+ * Parse a JSON request body into an object
+ */
+function parseBody(body: unknown): Record<string, unknown> {
+    if (typeof body === 'string') {
+        try {
+            body = JSON.parse(body);
+        } catch {
+            return {};
+        }
+    }
+    return body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, unknown> : {};
+}
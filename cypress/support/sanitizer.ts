@@ -3,7 +3,7 @@
  * Removes sensitive data before storing mocks
  */
 
-import { getConfig, piiPatterns } from '../config/mock.config';
+import { getConfig, piiPatterns, sensitiveQueryParams } from '../config/mock.config';
 
 export interface SanitizeOptions {
     sanitizeHeaders?: boolean;
@@ -104,23 +104,11 @@ function sanitizeString(str: string): string {
  * Sanitize URL by removing sensitive query parameters
  */
 export function sanitizeUrl(url: string): string {
-    const sensitiveParams = [
-        'token',
-        'access_token',
-        'api_key',
-        'apikey',
-        'auth',
-        'key',
-        'secret',
-        'password',
-        'pwd',
-    ];
-
     try {
-        const baseUrl = url.startsWith('http') ? '' : 'http://localhost';
+        const baseUrl = url.startsWith('http') ? undefined : 'http://localhost';
         const urlObj = new URL(url, baseUrl);
 
-        for (const param of sensitiveParams) {
+        for (const param of sensitiveQueryParams) {
             if (urlObj.searchParams.has(param)) {
                 urlObj.searchParams.set(param, '***REMOVED***');
             }
@@ -135,93 +123,6 @@ export function sanitizeUrl(url: string): string {
     }
 }
 
-/**
- * Apply dynamic placeholders to response data
- */
-export function applyDynamicPlaceholders(
-    data: unknown,
-    patterns: { field: string; value: string }[]
-): unknown {
-    const config = getConfig();
-
-    if (typeof data === 'string') {
-        let result = data;
-        for (const { field, value } of patterns) {
-            if (data.includes(value)) {
-                result = result.replace(new RegExp(escapeRegex(value), 'g'), `{{${field}}}`);
-            }
-        }
-        return result;
-    }
-
-    if (Array.isArray(data)) {
-        return data.map(item => applyDynamicPlaceholders(item, patterns));
-    }
-
-    if (data && typeof data === 'object') {
-        const result: Record<string, unknown> = {};
-        for (const [key, value] of Object.entries(data)) {
-            // Check if this field should use dynamic placeholder
-            const matchingPattern = patterns.find(p => p.field === key);
-            if (matchingPattern && value === matchingPattern.value) {
-                result[key] = config.dynamicPlaceholder;
-            } else {
-                result[key] = applyDynamicPlaceholders(value, patterns);
-            }
-        }
-        return result;
-    }
-
-    return data;
-}
-
-/**
- * Resolve dynamic placeholders with actual values
- */
-export function resolveDynamicPlaceholders(
-    data: unknown,
-    values: Record<string, unknown>
-): unknown {
-    const config = getConfig();
-
-    if (typeof data === 'string') {
-        if (data === config.dynamicPlaceholder) {
-            return values['_default'] ?? data;
-        }
-
-        let result = data;
-        for (const [key, value] of Object.entries(values)) {
-            result = result.replace(`{{${key}}}`, String(value));
-        }
-        return result;
-    }
-
-    if (Array.isArray(data)) {
-        return data.map(item => resolveDynamicPlaceholders(item, values));
-    }
-
-    if (data && typeof data === 'object') {
-        const result: Record<string, unknown> = {};
-        for (const [key, value] of Object.entries(data)) {
-            if (value === config.dynamicPlaceholder && key in values) {
-                result[key] = values[key];
-            } else {
-                result[key] = resolveDynamicPlaceholders(value, values);
-            }
-        }
-        return result;
-    }
-
-    return data;
-}
-
-/**
- * Escape special regex characters
- */
-function escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
 /**
  * Full sanitization pipeline for recorded data
  */
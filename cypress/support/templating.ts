@@ -0,0 +1,253 @@
+/**
+ * Dynamic Templating
+ * Templates volatile fields at record time and fills them with fresh values at replay
+ */
+
+import { getConfig, DynamicField } from '../config/mock.config';
+
+export interface TemplateContext {
+    /** Query params of the replayed request */
+    queryParams: Record<string, string>;
+
+    /** Body of the replayed request */
+    requestBody?: unknown;
+
+    /** Extra named values (e.g. captured path params) */
+    params?: Record<string, unknown>;
+}
+
+/** Matches a whole-string generator token such as {{uuid()}} */
+const TOKEN_PATTERN = /\{\{\s*([a-zA-Z]+)\(([^)]*)\)\s*\}\}/g;
+
+/** Per-test counters for counter() */
+const counters = new Map<string, number>();
+
+/**
+ * Replace configured dynamic fields with generator tokens before a mock is stored
+ */
+export function templateResponse(
+    url: string,
+    body: unknown,
+    headers?: Record<string, string | string[]>
+): { body: unknown; headers?: Record<string, string | string[]> } {
+    const fields = getFieldsForUrl(url);
+    if (fields.length === 0) {
+        return { body, headers };
+    }
+
+    let templatedBody = body;
+    const templatedHeaders = headers ? { ...headers } : undefined;
+
+    for (const field of fields) {
+        const token = `{{${field.generator}}}`;
+
+        if (field.path) {
+            templatedBody = setAtPath(templatedBody, parsePath(field.path), token);
+        }
+
+        if (field.header && templatedHeaders) {
+            const key = Object.keys(templatedHeaders).find(h => h.toLowerCase() === field.header!.toLowerCase());
+            if (key) {
+                templatedHeaders[key] = token;
+            }
+        }
+    }
+
+    return { body: templatedBody, headers: templatedHeaders };
+}
+
+/**
+ * Fill generator tokens with fresh values
+ * A string that is exactly one token takes the generator's type (e.g. numbers from counter())
+ */
+export function renderTemplates<T>(data: T, context: TemplateContext): T {
+    if (typeof data === 'string') {
+        return renderString(data, context) as T;
+    }
+
+    if (Array.isArray(data)) {
+        return data.map(item => renderTemplates(item, context)) as T;
+    }
+
+    if (data && typeof data === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(data)) {
+            result[key] = renderTemplates(value, context);
+        }
+        return result as T;
+    }
+
+    return data;
+}
+
+/**
+ * Check for a value that is exactly one generator token (its replayed type is unknown)
+ */
+export function isTemplateToken(value: unknown): boolean {
+    return typeof value === 'string' && new RegExp(`^${TOKEN_PATTERN.source}$`).test(value);
+}
+
+/**
+ * Reset counter() sequences (called when mocking is enabled for a test)
+ */
+export function resetTemplateCounters(): void {
+    counters.clear();
+}
+
+/**
+ * Dynamic fields that apply to a URL
+ */
+function getFieldsForUrl(url: string): DynamicField[] {
+    const config = getConfig();
+    return config.dynamicFields.filter(f => !f.route || new RegExp(f.route, 'i').test(url));
+}
+
+/**
+ * Render the tokens inside a single string
+ */
+function renderString(value: string, context: TemplateContext): unknown {
+    const tokens = [...value.matchAll(TOKEN_PATTERN)];
+    if (tokens.length === 0) {
+        return value;
+    }
+
+    // Whole-string token keeps the generated value's type
+    if (tokens.length === 1 && tokens[0][0] === value) {
+        return generate(tokens[0][1], tokens[0][2].trim(), context);
+    }
+
+    return value.replace(TOKEN_PATTERN, (token, name: string, arg: string) => {
+        const generated = generate(name, arg.trim(), context);
+        return generated === undefined ? token : String(generated);
+    });
+}
+
+/**
+ * Produce a value for a generator call
+ */
+function generate(name: string, arg: string, context: TemplateContext): unknown {
+    switch (name) {
+        case 'now':
+            return arg === 'epoch' ? Date.now() : new Date().toISOString();
+        case 'uuid':
+            return generateUuid();
+        case 'counter': {
+            const key = arg || 'default';
+            const next = (counters.get(key) ?? 0) + 1;
+            counters.set(key, next);
+            return next;
+        }
+        case 'param':
+            return lookupParam(arg, context);
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Echo a value from the replayed request: named params, then query, then body
+ */
+function lookupParam(name: string, context: TemplateContext): unknown {
+    if (context.params && name in context.params) {
+        return context.params[name];
+    }
+    if (name in context.queryParams) {
+        return context.queryParams[name];
+    }
+
+    let current: unknown = typeof context.requestBody === 'string'
+        ? safeParse(context.requestBody)
+        : context.requestBody;
+    for (const key of name.split('.')) {
+        if (!current || typeof current !== 'object') {
+            return undefined;
+        }
+        current = (current as Record<string, unknown>)[key];
+    }
+    return current;
+}
+
+/**
+ * Parse a JSONPath-style selector ($.data[*].createdAt) into segments
+ */
+export function parsePath(path: string): (string | number | '*')[] {
+    const segments: (string | number | '*')[] = [];
+    const pattern = /\.([^.[\]]+)|\[(\*|\d+)\]|\['([^']+)'\]/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(path.replace(/^\$/, ''))) !== null) {
+        if (match[1] !== undefined) {
+            segments.push(match[1] === '*' ? '*' : match[1]);
+        } else if (match[2] !== undefined) {
+            segments.push(match[2] === '*' ? '*' : Number(match[2]));
+        } else {
+            segments.push(match[3]);
+        }
+    }
+    return segments;
+}
+
+/**
+ * Set a value at every location a parsed path selects (existing locations only)
+ */
+function setAtPath(data: unknown, segments: (string | number | '*')[], value: unknown): unknown {
+    if (segments.length === 0) {
+        return value;
+    }
+    if (!data || typeof data !== 'object') {
+        return data;
+    }
+
+    const [head, ...rest] = segments;
+
+    if (Array.isArray(data)) {
+        if (head === '*') {
+            return data.map(item => setAtPath(item, rest, value));
+        }
+        if (typeof head === 'number' && head < data.length) {
+            const copy = [...data];
+            copy[head] = setAtPath(copy[head], rest, value);
+            return copy;
+        }
+        return data;
+    }
+
+    const record = data as Record<string, unknown>;
+    if (head === '*') {
+        const result: Record<string, unknown> = {};
+        for (const [key, child] of Object.entries(record)) {
+            result[key] = setAtPath(child, rest, value);
+        }
+        return result;
+    }
+
+    const key = String(head);
+    if (!(key in record)) {
+        return data;
+    }
+    return { ...record, [key]: setAtPath(record[key], rest, value) };
+}
+
+/**
+ * RFC 4122 v4 UUID
+ */
+function generateUuid(): string {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID();
+    }
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+        const r = Math.random() * 16 | 0;
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+    });
+}
+
+/**
+ * Parse JSON, returning undefined on failure
+ */
+function safeParse(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
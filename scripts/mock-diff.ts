@@ -0,0 +1,33 @@
+/**
+ * Mock Diff CLI
+ * Shows semantic changes between two recording runs; exits non-zero when they differ
+ *
+ * Usage:
+ *   npx tsx scripts/mock-diff.ts <beforeDir> <afterDir>
+ *   npx tsx scripts/mock-diff.ts --ref <gitRef> [dir]     (dir at ref vs working tree)
+ */
+
+import { defaultConfig } from '../cypress/config/mock.config';
+import { diffMockSets, formatMockDiff, MockSource } from '../cypress/plugins/mockDiff';
+
+const args = process.argv.slice(2);
+const refIndex = args.indexOf('--ref');
+let before: MockSource;
+let after: MockSource;
+
+if (refIndex !== -1) {
+    const ref = args[refIndex + 1];
+    const dir = args.filter((_, i) => i !== refIndex && i !== refIndex + 1)[0] ?? defaultConfig.mockDir;
+    before = { dir, ref };
+    after = { dir };
+} else if (args.length === 2) {
+    before = { dir: args[0] };
+    after = { dir: args[1] };
+} else {
+    console.error('Usage: mock-diff <beforeDir> <afterDir> | mock-diff --ref <gitRef> [dir]');
+    process.exit(2);
+}
+
+const diffs = diffMockSets(before, after);
+console.log(formatMockDiff(diffs));
+process.exit(diffs.length > 0 ? 1 : 0);
@@ -0,0 +1,153 @@
+/**
+ * Mock Recorder CLI
+ * Entry point for `npx mock-recorder <command>`
+ *
+ * Usage:
+ *   mock-recorder serve [--dir cypress/mocks] [--port 4010] [--proxy https://api.example.com] [--no-record] [--storage blobs]
+ *   mock-recorder record --target https://api.example.com [--dir cypress/mocks] [--port 4011] [--storage blobs]
+ *   mock-recorder list [--dir cypress/mocks]
+ *   mock-recorder show "GET /posts/1" | posts/get_posts_1.json [--closest]
+ *   mock-recorder rm "posts/**" | "DELETE /users/:id" [--dry-run]
+ *   mock-recorder gc [--dry-run]
+ *   mock-recorder rename-host api.staging.example.com api.example.com [--dry-run]
+ *   mock-recorder reformat [--check]
+ *   mock-recorder stats
+ */
+
+import { defaultConfig, StorageFormat } from '../cypress/config/mock.config';
+import {
+    findMockBySignature,
+    formatMockStats,
+    formatMockTable,
+    getMockStats,
+    loadMockEntries,
+    reformatMocks,
+    removeMocks,
+    removeUnusedBlobs,
+    renameHost
+} from '../cypress/plugins/mockAdmin';
+import { startMockServer } from '../cypress/plugins/mockServer';
+import { startRecordingProxy } from '../cypress/plugins/recordingProxy';
+
+const [command, ...args] = process.argv.slice(2);
+
+/** Flags followed by a value */
+const VALUE_FLAGS = ['--dir', '--port', '--proxy', '--target', '--storage'];
+
+const mockDir = flag('--dir') ?? defaultConfig.mockDir;
+const dryRun = args.includes('--dry-run');
+const storageFormat = flag('--storage') as StorageFormat | undefined;
+
+function flag(name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+}
+
+/** Arguments that are neither flags nor flag values */
+const positional = args.filter((arg, i) => !arg.startsWith('--') && !VALUE_FLAGS.includes(args[i - 1]));
+
+function usage(line: string): never {
+    console.error(`Usage: mock-recorder ${line}`);
+    process.exit(2);
+}
+
+function printFiles(files: string[], verb: string): void {
+    files.forEach(file => console.log(`  ${file}`));
+    console.log(`${files.length} mocks ${dryRun ? `would be ${verb}` : verb}`);
+}
+
+switch (command) {
+    case 'serve':
+        startMockServer({
+            dir: mockDir,
+            port: Number(flag('--port') ?? 4010),
+            proxy: flag('--proxy'),
+            record: !args.includes('--no-record'),
+            storageFormat,
+        }).catch((error: Error) => {
+            console.error(`Could not start the mock server: ${error.message}`);
+            process.exit(1);
+        });
+        break;
+    case 'record': {
+        const target = flag('--target');
+        if (!target) {
+            console.error('Usage: mock-recorder record --target <url> [--dir <mockDir>] [--port <port>] [--storage <files|blobs>]');
+            process.exit(2);
+        }
+        startRecordingProxy({
+            target,
+            dir: mockDir,
+            port: Number(flag('--port') ?? 4011),
+            storageFormat,
+        }).catch((error: Error) => {
+            console.error(`Could not start the recording proxy: ${error.message}`);
+            process.exit(1);
+        });
+        break;
+    }
+    case 'list':
+        console.log(formatMockTable(loadMockEntries(mockDir)));
+        break;
+    case 'show': {
+        if (positional.length !== 1) {
+            usage('show <"METHOD /path?query" | file> [--dir <mockDir>] [--closest]');
+        }
+        const found = findMockBySignature(mockDir, positional[0], args.includes('--closest'));
+        if (!found) {
+            console.error(`No mock found for ${positional[0]}`);
+            process.exit(1);
+        }
+        const { tier, score } = found.match;
+        console.log(`# ${found.filePath}${tier === 'exact' ? '' : ` (${tier} match, score ${score.toFixed(2)})`}`);
+        console.log(JSON.stringify(found.mock, null, 2));
+        break;
+    }
+    case 'rm':
+        if (positional.length === 0) {
+            usage('rm <glob | "METHOD /route">... [--dir <mockDir>] [--dry-run]');
+        }
+        printFiles(removeMocks(mockDir, positional, dryRun), 'removed');
+        break;
+    case 'gc': {
+        const hashes = removeUnusedBlobs(mockDir, dryRun);
+        hashes.forEach(hash => console.log(`  ${hash}`));
+        console.log(`${hashes.length} unreferenced blobs ${dryRun ? 'would be removed' : 'removed'}`);
+        break;
+    }
+    case 'rename-host':
+        if (positional.length !== 2) {
+            usage('rename-host <from> <to> [--dir <mockDir>] [--dry-run]');
+        }
+        printFiles(renameHost(mockDir, positional[0], positional[1], dryRun), 'updated');
+        break;
+    case 'reformat': {
+        const check = args.includes('--check');
+        const changed = reformatMocks(mockDir, check);
+        changed.forEach(file => console.log(`  ${file}`));
+        console.log(check
+            ? `${changed.length} mocks not in canonical format`
+            : `${changed.length} mocks reformatted`);
+        if (check && changed.length > 0) {
+            process.exit(1);
+        }
+        break;
+    }
+    case 'stats':
+        console.log(formatMockStats(getMockStats(mockDir), mockDir));
+        break;
+    default:
+        console.error([
+            'Usage:',
+            '  mock-recorder serve [--dir <mockDir>] [--port <port>] [--proxy <url>] [--no-record] [--storage <files|blobs>]',
+            '  mock-recorder record --target <url> [--dir <mockDir>] [--port <port>] [--storage <files|blobs>]',
+            '  mock-recorder list [--dir <mockDir>]',
+            '  mock-recorder show <"METHOD /path?query" | file> [--dir <mockDir>] [--closest]',
+            '  mock-recorder rm <glob | "METHOD /route">... [--dir <mockDir>] [--dry-run]',
+            '  mock-recorder gc [--dir <mockDir>] [--dry-run]',
+            '  mock-recorder rename-host <from> <to> [--dir <mockDir>] [--dry-run]',
+            '  mock-recorder reformat [--dir <mockDir>] [--check]',
+            '  mock-recorder stats [--dir <mockDir>]',
+        ].join('\n'));
+        process.exit(2);
+}
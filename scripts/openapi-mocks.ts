@@ -0,0 +1,30 @@
+/**
+ * OpenAPI Mock Generator CLI
+ * Writes mocks for every operation of an OpenAPI 3 document (existing recordings are kept)
+ *
+ * Usage: npx tsx scripts/openapi-mocks.ts <spec.yaml|spec.json> [--dir cypress/mocks] [--base-path /api] [--force]
+ */
+
+import { defaultConfig } from '../cypress/config/mock.config';
+import { generateMocksFromOpenApi } from '../cypress/plugins/openapi';
+
+function flag(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+const specPath = process.argv[2];
+if (!specPath || specPath.startsWith('--')) {
+    console.error('Usage: openapi-mocks <spec.yaml|spec.json> [--dir cypress/mocks] [--base-path /api] [--force]');
+    process.exit(2);
+}
+
+const mockDir = flag('--dir') ?? defaultConfig.mockDir;
+const { written, skipped } = generateMocksFromOpenApi(specPath, mockDir, {
+    basePath: flag('--base-path'),
+    force: process.argv.includes('--force'),
+});
+
+written.forEach(file => console.log(`  + ${file}`));
+skipped.forEach(file => console.log(`  = ${file} (exists, use --force to overwrite)`));
+console.log(`📝 Generated ${written.length} mocks in ${mockDir} (${skipped.length} kept)`);
@@ -0,0 +1,16 @@
+/**
+ * Secret Scanner CLI
+ * Scans the mock store for leaked credentials; exits non-zero when any are found
+ *
+ * Usage: npx tsx scripts/scan-secrets.ts [--dir cypress/mocks]
+ */
+
+import { defaultConfig } from '../cypress/config/mock.config';
+import { formatSecretReport, scanMocksForSecrets } from '../cypress/plugins/secretScan';
+
+const dirFlag = process.argv.indexOf('--dir');
+const mockDir = dirFlag !== -1 ? process.argv[dirFlag + 1] : defaultConfig.mockDir;
+
+const findings = scanMocksForSecrets(mockDir);
+console.log(formatSecretReport(findings));
+process.exit(findings.length > 0 ? 1 : 0);
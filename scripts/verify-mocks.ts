@@ -0,0 +1,27 @@
+/**
+ * Mock Drift Verifier CLI
+ * Replays stored requests against the real API and reports schema drift; exits non-zero on drift
+ *
+ * Usage: npx tsx scripts/verify-mocks.ts [--dir cypress/mocks] [--base-url https://api.example.com] [--include-unsafe]
+ */
+
+import { defaultConfig } from '../cypress/config/mock.config';
+import { formatDriftReport, verifyMocks } from '../cypress/plugins/driftCheck';
+
+function flag(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+const mockDir = flag('--dir') ?? defaultConfig.mockDir;
+const baseUrl = flag('--base-url') ?? process.env.BASE_URL;
+const includeUnsafe = process.argv.includes('--include-unsafe');
+
+verifyMocks(mockDir, { baseUrl, includeUnsafe }).then((results) => {
+    console.log(formatDriftReport(results));
+    const drifted = results.some(r => r.changes.length > 0 || r.error);
+    process.exit(drifted ? 1 : 0);
+}).catch((error: Error) => {
+    console.error(`Could not verify mocks: ${error.message}`);
+    process.exit(1);
+});